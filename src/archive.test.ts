@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { LazyLoader } from './archive.js';
+
+describe('LazyLoader', () => {
+	/** A loader whose parses wait until released, recording the signal of each. */
+	function createLoader() {
+		const signals: AbortSignal[] = [];
+		const releases: (() => void)[] = [];
+		let parsed = 0;
+
+		const loader = new LazyLoader({
+			parse: async (signal) => {
+				signals.push(signal);
+				await new Promise<void>(resolve => releases.push(resolve));
+				signal.throwIfAborted();
+				parsed++;
+			},
+			unparsed: () => parsed === 0,
+			ready: () => parsed > 0,
+			onError: () => { throw Error('An aborted parse should not be reported'); },
+		});
+
+		return { loader, signals, releases, parsed: () => parsed };
+	}
+
+	test('shares the first parse between callers', async () => {
+		const { loader, signals, releases } = createLoader();
+		const first = loader.validate();
+		const second = loader.validate();
+		await Promise.resolve();
+		expect(signals.length).toBe(1);
+
+		releases[0]();
+		expect(await Promise.all([first, second])).toEqual([true, true]);
+		expect(await loader.validate()).toBe(true);
+	});
+
+	test('aborts a parse that a reload supersedes', async () => {
+		const { loader, signals, releases, parsed } = createLoader();
+		const first = loader.validate();
+		await Promise.resolve();
+		const second = loader.reload();
+
+		expect(signals[0].aborted).toBe(true);
+		releases[0]();
+
+		// The second parse only starts once the first has unwound.
+		while (signals.length < 2) await new Promise(resolve => setTimeout(resolve, 0));
+		expect(signals[1].aborted).toBe(false);
+		releases[1]();
+
+		expect(await Promise.all([first, second])).toEqual([true, true]);
+		expect(parsed()).toBe(1);
+	});
+});
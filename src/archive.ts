@@ -0,0 +1,197 @@
+import { FileType, __console__ as console } from './index.js';
+import { normalizePath } from './path.js';
+
+const SLASH = '/';
+
+/** A directory in an ArchiveIndex. */
+export interface ArchiveDirectory {
+	/** The name as first seen in the archive. Empty for the root. */
+	name: string;
+	/** The key of the directory, with a leading slash. Empty for the root. */
+	path: string;
+	parent?: ArchiveDirectory;
+	/** Subdirectories, by case-folded name. */
+	dirs: Map<string, ArchiveDirectory>;
+	/** Keys into `files` of the files directly inside, by case-folded name. */
+	files: Map<string, string>;
+	/** The number of files in this directory and below. */
+	fileCount: number;
+	/** The total size of the files in this directory and below, in bytes. */
+	size: number;
+}
+
+export interface LazyLoadOptions {
+	/** Parses the archive. May throw, and should stop early once the signal is aborted. */
+	parse(signal: AbortSignal): Promise<unknown>;
+	/** True until the archive has been parsed, even if parse() was called without the loader. */
+	unparsed(): boolean;
+	/** Whether the archive is usable after parsing. */
+	ready(): boolean;
+	/** Handles whatever parse() threw. Defaults to logging it. */
+	onError?(error: unknown): void;
+}
+
+/**
+ * Runs an archive's parse on first use and shares it between concurrent callers.
+ * A reload aborts any parse in progress and waits for it to unwind, so that two parses never interleave.
+ */
+export class LazyLoader {
+	#options: LazyLoadOptions;
+	#loading?: Promise<boolean>;
+	#running?: Promise<void>;
+	#abort?: AbortController;
+
+	constructor(options: LazyLoadOptions) {
+		this.#options = options;
+	}
+
+	async #load(signal: AbortSignal) {
+		try {
+			await this.#options.parse(signal);
+		}
+		catch(e) {
+			if (signal.aborted) return;
+			if (this.#options.onError) this.#options.onError(e);
+			else console.error(e);
+		}
+	}
+
+	/** Parses on first use and resolves to whether the archive is usable. */
+	validate(): Promise<boolean> {
+		if (this.#options.unparsed() && !this.#loading) this.reload();
+		return this.#loading ?? Promise.resolve(this.#options.ready());
+	}
+
+	/** Parses again from scratch. Anyone waiting on a parse that this supersedes gets the result of this one instead. */
+	reload(): Promise<boolean> {
+		this.#abort?.abort();
+		const controller = this.#abort = new AbortController();
+
+		const previous = this.#running;
+		const running = this.#running = (async () => {
+			await previous;
+			if (!controller.signal.aborted) await this.#load(controller.signal);
+		})();
+
+		return this.#loading = running.then(() => this.#abort === controller ? this.#options.ready() : this.#loading!);
+	}
+}
+
+function createDirectory(name: string, path: string, parent?: ArchiveDirectory): ArchiveDirectory {
+	return { name, path, parent, dirs: new Map(), files: new Map(), fileCount: 0, size: 0 };
+}
+
+/**
+ * File & directory lookup shared by the archive-backed providers.
+ * Files are kept in a flat table keyed by their path with a leading slash and original casing, and in a directory tree
+ * that resolves paths case-insensitively. Entries whose casing differs are merged, keeping the casing seen first
+ * for directories and last for files.
+ */
+export class ArchiveIndex<T> {
+	files: Record<string, T> = {};
+	root: ArchiveDirectory = createDirectory('', '');
+	#sizeOf: (info: T) => number;
+
+	/** @param sizeOf Returns the size of a file, for the recursive sizes of directories. */
+	constructor(sizeOf: (info: T) => number = () => 0) {
+		this.#sizeOf = sizeOf;
+	}
+
+	clear() {
+		this.files = {};
+		this.root = createDirectory('', '');
+	}
+
+	/** Adds a file and all of its parent directories. */
+	addFile(path: string, info: T) {
+		const normal = normalizePath(path);
+		const slash = normal.lastIndexOf(SLASH);
+		const dir = this.addDirectory(slash === -1 ? '' : normal.slice(0, slash));
+		const folded = normal.slice(slash + 1).toLowerCase();
+		const key = SLASH + normal;
+
+		// A file that is added again, possibly with other casing, replaces the previous one.
+		const previous = dir.files.get(folded);
+		const count_delta = previous === undefined ? 1 : 0;
+		const size_delta = this.#sizeOf(info) - (previous === undefined ? 0 : this.#sizeOf(this.files[previous]));
+
+		if (previous !== undefined && previous !== key) delete this.files[previous];
+		dir.files.set(folded, key);
+		this.files[key] = info;
+		for (let node: ArchiveDirectory|undefined = dir; node; node = node.parent) {
+			node.fileCount += count_delta;
+			node.size += size_delta;
+		}
+	}
+
+	/** Adds a directory and all of its parents. Returns the directory. */
+	addDirectory(path: string): ArchiveDirectory {
+		let node = this.root;
+		for (const part of normalizePath(path).split(SLASH)) {
+			if (!part.length) continue;
+			const folded = part.toLowerCase();
+			let child = node.dirs.get(folded);
+			if (!child) {
+				child = createDirectory(part, node.path + SLASH + part, node);
+				node.dirs.set(folded, child);
+			}
+			node = child;
+		}
+		return node;
+	}
+
+	/** Finds a directory, ignoring case and slash style. */
+	getDirectory(path: string): ArchiveDirectory|undefined {
+		let node: ArchiveDirectory|undefined = this.root;
+		for (const part of normalizePath(path).split(SLASH)) {
+			if (!part.length) continue;
+			node = node.dirs.get(part.toLowerCase());
+			if (!node) return undefined;
+		}
+		return node;
+	}
+
+	/** Finds the key in `files` for the given path, ignoring case and slash style. */
+	resolveFile(path: string): string|undefined {
+		const normal = normalizePath(path);
+		const key = SLASH + normal;
+		if (key in this.files) return key;
+
+		const slash = normal.lastIndexOf(SLASH);
+		const dir = this.getDirectory(slash === -1 ? '' : normal.slice(0, slash));
+		return dir?.files.get(normal.slice(slash + 1).toLowerCase());
+	}
+
+	/** Finds the key of a directory, ignoring case and slash style. The root is an empty string. */
+	resolveDir(path: string): string|undefined {
+		return this.getDirectory(path)?.path;
+	}
+
+	getFile(path: string): T|undefined {
+		const key = this.resolveFile(path);
+		if (key === undefined) return undefined;
+		return this.files[key];
+	}
+
+	/** Lists the direct children of a directory. */
+	list(path: string): [string, FileType][]|undefined {
+		const dir = this.getDirectory(path);
+		if (!dir) return undefined;
+
+		const out: [string, FileType][] = [];
+		for (const child of dir.dirs.values()) out.push([child.name, FileType.Directory]);
+		for (const key of dir.files.values()) out.push([key.slice(key.lastIndexOf(SLASH) + 1), FileType.File]);
+		return out;
+	}
+
+	/** Iterates over the files in a directory and everything below it, as `[key, info]` pairs. */
+	*entries(path: string = ''): Generator<[string, T]> {
+		const dir = this.getDirectory(path);
+		if (dir) yield* this.#entries(dir);
+	}
+
+	*#entries(dir: ArchiveDirectory): Generator<[string, T]> {
+		for (const key of dir.files.values()) yield [key, this.files[key]];
+		for (const child of dir.dirs.values()) yield* this.#entries(child);
+	}
+}
@@ -0,0 +1,46 @@
+import { type ReadableFileSystem } from './index.js';
+import { ZipSystem } from './zip.js';
+import { ArchiveError } from './errors.js';
+
+const SIGNATURE = 0x50534256; // VBSP
+const LE = true;
+const LUMP_PAKFILE = 40;
+const LUMP_COUNT = 64;
+const SIZE_LUMP = 16;
+const SIZE_HEADER = 8 + LUMP_COUNT * SIZE_LUMP + 4;
+
+/** Reads the pakfile lump embedded in a compiled map. */
+export class BspPakSystem extends ZipSystem {
+	public override readonly kind = 'bsp';
+
+	protected override async locate(): Promise<boolean> {
+		const header = this.fs.readFileRange
+			? await this.fs.readFileRange(this.path, 0, SIZE_HEADER)
+			: (await this.fs.readFile(this.path))?.subarray(0, SIZE_HEADER);
+
+		if (!header || header.length < SIZE_HEADER) return false;
+		const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+		if (view.getUint32(0, LE) !== SIGNATURE) throw new ArchiveError('Invalid bsp signature!', { path: this.path });
+
+		const version = view.getUint32(4, LE);
+		const lump = 8 + LUMP_PAKFILE * SIZE_LUMP;
+		let offset = view.getUint32(lump, LE);
+		let length = view.getUint32(lump + 4, LE);
+
+		// Left 4 Dead 2 swaps the lump fields to { version, offset, length }.
+		if (version === 21 && offset < SIZE_HEADER && length >= SIZE_HEADER) {
+			offset = view.getUint32(lump + 4, LE);
+			length = view.getUint32(lump + 8, LE);
+		}
+
+		this.base = offset;
+		this.size = length;
+		return true;
+	}
+
+	protected override async read(offset: number, length: number): Promise<Uint8Array|undefined> {
+		// Never read past the end of the lump.
+		length = Math.max(0, Math.min(length, this.size - offset));
+		return super.read(offset, length);
+	}
+}
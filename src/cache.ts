@@ -0,0 +1,257 @@
+import { type ReadableFileSystem, type WritableFileSystem, __console__ as console } from './index.js';
+
+/** Default byte budget for archive caches. */
+export const DEFAULT_CACHE_SIZE = 256 * 1024 * 1024;
+
+/** Bumped whenever the layout of cached data changes, so that older cache files are ignored. */
+const INDEX_CACHE_VERSION = 1;
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	evictions: number;
+	/** The number of bytes currently held. */
+	size: number;
+	/** The number of chunks currently held. */
+	entries: number;
+}
+
+interface CacheEntry {
+	owner: object;
+	index: number;
+	data: Uint8Array;
+}
+
+/**
+ * A memory-bounded LRU cache for archive chunk data. One instance can be shared between
+ * several archives to give them a common byte budget.
+ */
+export class ArchiveCache {
+	public maxSize: number;
+
+	#entries = new Map<string, CacheEntry>();
+	#owners = new WeakMap<object, number>();
+	#nextOwner = 0;
+	#size = 0;
+	#hits = 0;
+	#misses = 0;
+	#evictions = 0;
+
+	constructor(maxSize: number=DEFAULT_CACHE_SIZE) {
+		this.maxSize = maxSize;
+	}
+
+	#key(owner: object, index: number): string {
+		let id = this.#owners.get(owner);
+		if (id === undefined) this.#owners.set(owner, id = this.#nextOwner++);
+		return id + ':' + index;
+	}
+
+	get stats(): CacheStats {
+		return {
+			hits: this.#hits,
+			misses: this.#misses,
+			evictions: this.#evictions,
+			size: this.#size,
+			entries: this.#entries.size,
+		};
+	}
+
+	get(owner: object, index: number): Uint8Array|undefined {
+		const key = this.#key(owner, index);
+		const entry = this.#entries.get(key);
+		if (!entry) {
+			this.#misses++;
+			return undefined;
+		}
+
+		// Re-insert to mark as most recently used.
+		this.#entries.delete(key);
+		this.#entries.set(key, entry);
+		this.#hits++;
+		return entry.data;
+	}
+
+	set(owner: object, index: number, data: Uint8Array) {
+		const key = this.#key(owner, index);
+		const existing = this.#entries.get(key);
+		if (existing) {
+			this.#entries.delete(key);
+			this.#size -= existing.data.length;
+		}
+
+		// Data that can never fit is not worth evicting everything else for.
+		if (data.length > this.maxSize) return;
+
+		this.#entries.set(key, { owner, index, data });
+		this.#size += data.length;
+		this.trim();
+	}
+
+	/** Evicts least recently used entries until the cache fits within maxSize. */
+	trim() {
+		for (const [key, entry] of this.#entries) {
+			if (this.#size <= this.maxSize) break;
+			this.#entries.delete(key);
+			this.#size -= entry.data.length;
+			this.#evictions++;
+		}
+	}
+
+	/** Removes all entries, or only the entries belonging to the given owner. */
+	clear(owner?: object) {
+		if (owner === undefined) {
+			this.#entries.clear();
+			this.#size = 0;
+			return;
+		}
+
+		for (const [key, entry] of this.#entries) {
+			if (entry.owner !== owner) continue;
+			this.#entries.delete(key);
+			this.#size -= entry.data.length;
+		}
+	}
+
+	resetStats() {
+		this.#hits = 0;
+		this.#misses = 0;
+		this.#evictions = 0;
+	}
+}
+
+/** The path, size and mtime of a file that cached data was built from. Missing files have a size and mtime of -1. */
+export type IndexStamp = [path: string, size: number, mtime: number];
+
+interface IndexEntry {
+	stamps: IndexStamp[];
+	data: unknown;
+}
+
+export async function stampFile(fs: ReadableFileSystem, path: string): Promise<IndexStamp> {
+	const stat = await fs.stat(path).catch(() => undefined);
+	return [path, stat?.size ?? -1, stat?.mtime ?? -1];
+}
+
+/** Wraps a filesystem so that every path read through it is stamped into `stamps`. */
+export function trackStamps(fs: ReadableFileSystem, stamps: Map<string, IndexStamp>): ReadableFileSystem {
+	const track = async (path: string) => {
+		if (!stamps.has(path)) stamps.set(path, await stampFile(fs, path));
+	};
+
+	return {
+		readFile: async (path) => { await track(path); return fs.readFile(path); },
+		readDirectory: async (path) => { await track(path); return fs.readDirectory(path); },
+		stat: async (path) => { await track(path); return fs.stat(path); },
+	};
+}
+
+/**
+ * Persists parsed indexes (VPK trees, Steam app manifests and game search paths) in a JSON file between runs.
+ * Each entry remembers the size and mtime of the files it was built from, and is dropped once any of them change.
+ * Paths are used as keys, so a cache should only be shared by systems on the same filesystem.
+ */
+export class IndexCache {
+	public readonly fs: WritableFileSystem;
+	public readonly path: string;
+
+	#entries = new Map<string, IndexEntry>();
+	#loading?: Promise<void>;
+	#dirty = false;
+
+	constructor(fs: WritableFileSystem, path: string) {
+		this.fs = fs;
+		this.path = path;
+	}
+
+	get size(): number {
+		return this.#entries.size;
+	}
+
+	/** Reads the cache file on first use. A missing, unreadable or outdated file leaves the cache empty. */
+	load(): Promise<void> {
+		return this.#loading ??= this.#load();
+	}
+
+	async #load() {
+		let bytes: Uint8Array|undefined;
+		try {
+			bytes = await this.fs.readFile(this.path);
+		}
+		catch {}
+		if (!bytes) return;
+
+		try {
+			const json = JSON.parse(new TextDecoder().decode(bytes));
+			if (json?.version !== INDEX_CACHE_VERSION) return;
+
+			// Entries set before the file finished loading are newer.
+			for (const key in json.entries) {
+				if (!this.#entries.has(key)) this.#entries.set(key, json.entries[key]);
+			}
+		}
+		catch(e) {
+			console.warn(`Ignoring unreadable index cache '${this.path}'`, e);
+		}
+	}
+
+	/** Returns the data stored under a key, if every file it was built from still has the same size and mtime on `fs`. */
+	async get<T>(key: string, fs: ReadableFileSystem): Promise<T|undefined> {
+		await this.load();
+		const entry = this.#entries.get(key);
+		if (!entry) return undefined;
+
+		for (const [path, size, mtime] of entry.stamps) {
+			const [, current_size, current_mtime] = await stampFile(fs, path);
+			if (current_size === size && current_mtime === mtime) continue;
+			this.delete(key);
+			return undefined;
+		}
+		return entry.data as T;
+	}
+
+	/** Returns the stamps stored with a key, without checking them. */
+	getStamps(key: string): IndexStamp[]|undefined {
+		return this.#entries.get(key)?.stamps;
+	}
+
+	/** Stores data along with the stamps of the files it was built from. The data must survive a JSON round trip. */
+	set(key: string, stamps: IndexStamp[], data: unknown) {
+		this.#entries.set(key, { stamps, data });
+		this.#dirty = true;
+	}
+
+	delete(key: string) {
+		if (this.#entries.delete(key)) this.#dirty = true;
+	}
+
+	clear() {
+		this.#entries.clear();
+		this.#dirty = true;
+	}
+
+	/** Writes the cache file if anything changed since it was loaded or last saved. */
+	async save(): Promise<boolean> {
+		await this.load();
+		if (!this.#dirty) return true;
+
+		const json = JSON.stringify({ version: INDEX_CACHE_VERSION, entries: Object.fromEntries(this.#entries) });
+		if (!await this.fs.writeFile(this.path, new TextEncoder().encode(json))) return false;
+		this.#dirty = false;
+		return true;
+	}
+}
+
+/** Encodes bytes as base64, for storing them in an index cache. */
+export function encodeBytes(bytes: Uint8Array): string {
+	let binary = '';
+	for (let i=0; i<bytes.length; i+=0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	return btoa(binary);
+}
+
+export function decodeBytes(text: string): Uint8Array {
+	const binary = atob(text);
+	const bytes = new Uint8Array(binary.length);
+	for (let i=0; i<binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes;
+}
@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+import { FileType, GameSystem, VpkSystem, GmaSystem, ZipSystem, BspPakSystem, IndexCache, extract, setLogTarget, type ReadableFileSystem } from './index.js';
+import { NodeSystem } from './fs.node.js';
+import { FolderSystem, SteamCache, findSteamCache } from './game.js';
+import { walkFiles } from './walk.js';
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import { join } from 'path/posix';
+
+const USAGE = `Usage: sfs <command> [options]
+
+Commands:
+  ls <source> [path]              List a directory. Use --recursive to list every file below it.
+  cat <source> <path>             Write a file to stdout.
+  stat <source> <path>            Show the type, size and times of a file or directory.
+  which <source> <path>           Show every provider that holds a file, starting with the one that wins.
+  extract <source> <dest>         Copy files out. Filter with --include and --exclude globs.
+  games                           List the games found in the Steam libraries.
+  verify <source>                 Check archive checksums. A game checks every mounted archive.
+
+A source is a game folder (holding gameinfo.txt or gameinfo.gi), any other folder, or a .vpk, .gma, .bsp or .zip file.
+
+Options:
+  -q, --qualifier <id>            Only use search paths with this path ID.
+  -r, --recursive                 List files recursively.
+  -i, --include <glob>            Extract only matching files. May be repeated.
+  -x, --exclude <glob>            Skip matching files. May be repeated.
+      --overwrite                 Replace files that already exist when extracting.
+      --steam <path>              The Steam install to use instead of the detected one.
+      --cache <file>              Keep parsed archive trees and search paths in this file to speed up later runs.
+      --json                      Print machine-readable output.
+  -v, --verbose                   Print library logs to stderr.
+  -h, --help                      Show this message.`;
+
+const OPTIONS = {
+	qualifier: { type: 'string', short: 'q' },
+	recursive: { type: 'boolean', short: 'r' },
+	include:   { type: 'string', short: 'i', multiple: true },
+	exclude:   { type: 'string', short: 'x', multiple: true },
+	overwrite: { type: 'boolean' },
+	steam:     { type: 'string' },
+	cache:     { type: 'string' },
+	json:      { type: 'boolean' },
+	verbose:   { type: 'boolean', short: 'v' },
+	help:      { type: 'boolean', short: 'h' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS, allowPositionals: true }>>['values'];
+
+/** A source opened for reading. Games take a qualifier, everything else ignores it. */
+type Source = GameSystem | VpkSystem | GmaSystem | ZipSystem | FolderSystem;
+
+class CliError extends Error {
+	/** Whether to point the user at --help. */
+	usage: boolean;
+
+	constructor(message: string, usage: boolean = false) {
+		super(message);
+		this.usage = usage;
+	}
+}
+
+const nfs = new NodeSystem();
+let indexCache: IndexCache|undefined;
+
+function toPosix(path: string): string {
+	return resolve(path).replaceAll('\\', '/');
+}
+
+function print(text: string) {
+	process.stdout.write(text + '\n');
+}
+
+function printJSON(value: unknown) {
+	print(JSON.stringify(value, (_, x) => {
+		if (typeof x === 'bigint') return x.toString();
+		if (x instanceof Uint8Array) return Buffer.from(x).toString('hex');
+		return x;
+	}, '\t'));
+}
+
+function getSteam(options: Options): SteamCache {
+	const steam = options.steam ? SteamCache.get(nfs, toPosix(options.steam) + '/') : findSteamCache(nfs);
+	steam.indexCache ??= indexCache;
+	return steam;
+}
+
+async function openSource(path: string|undefined, options: Options): Promise<Source> {
+	if (!path) throw new CliError('Missing source!', true);
+	const full = toPosix(path);
+
+	const stat = await nfs.stat(full);
+	if (!stat) throw new CliError(`'${path}' does not exist!`);
+
+	let source: Source;
+	if (stat.type === FileType.Directory) {
+		const has_gameinfo = await nfs.stat(join(full, 'gameinfo.txt')) ?? await nfs.stat(join(full, 'gameinfo.gi'));
+		source = has_gameinfo ? new GameSystem(nfs, full, getSteam(options), { indexCache }) : new FolderSystem(nfs, full);
+	}
+	else {
+		const lower = full.toLowerCase();
+		if (lower.endsWith('.vpk')) {
+			source = new VpkSystem(nfs, full);
+			source.indexCache = indexCache;
+		}
+		else if (lower.endsWith('.gma')) source = new GmaSystem(nfs, full);
+		else if (lower.endsWith('.bsp')) source = new BspPakSystem(nfs, full);
+		else if (lower.endsWith('.zip')) source = new ZipSystem(nfs, full);
+		else throw new CliError(`'${path}' is not a supported archive!`);
+	}
+
+	if (!await source.validate()) throw new CliError(`'${path}' could not be opened!`);
+	return source;
+}
+
+/** Wraps a source so that every read goes through the qualifier. */
+function withQualifier(source: Source, qualifier: string|undefined): ReadableFileSystem {
+	if (!(source instanceof GameSystem) || !qualifier) return source;
+	return {
+		readFile: (path) => source.readFile(path, qualifier),
+		readDirectory: (path) => source.readDirectory(path, qualifier),
+		stat: (path) => source.stat(path, qualifier),
+	};
+}
+
+async function commandLs(args: string[], options: Options) {
+	const source = await openSource(args[0], options);
+	const fs = withQualifier(source, options.qualifier);
+	const path = args[1] ?? '';
+
+	if (options.recursive) {
+		const files: string[] = [];
+		for await (const file of walkFiles(fs, path)) files.push(file);
+		files.sort();
+		if (options.json) printJSON(files);
+		else for (const file of files) print(file);
+		return;
+	}
+
+	const entries = await fs.readDirectory(path);
+	if (!entries) throw new CliError(`'${path}' is not a directory!`);
+	entries.sort((a, b) => (b[1] - a[1]) || (a[0] < b[0] ? -1 : 1));
+
+	if (options.json) printJSON(entries.map(([name, type]) => ({ name, type: type === FileType.Directory ? 'directory' : 'file' })));
+	else for (const [name, type] of entries) print(type === FileType.Directory ? name + '/' : name);
+}
+
+async function commandCat(args: string[], options: Options) {
+	const source = await openSource(args[0], options);
+	if (!args[1]) throw new CliError('Missing path!', true);
+
+	const data = await withQualifier(source, options.qualifier).readFile(args[1]);
+	if (!data) throw new CliError(`'${args[1]}' could not be read!`);
+	process.stdout.write(data);
+}
+
+async function commandStat(args: string[], options: Options) {
+	const source = await openSource(args[0], options);
+	const path = args[1] ?? '';
+
+	const stat = await withQualifier(source, options.qualifier).stat(path);
+	if (!stat) throw new CliError(`'${path}' does not exist!`);
+
+	const out = {
+		path,
+		type: stat.type === FileType.Directory ? 'directory' : 'file',
+		size: stat.size,
+		mtime: new Date(stat.mtime).toISOString(),
+		ctime: new Date(stat.ctime).toISOString(),
+	};
+
+	if (options.json) printJSON(out);
+	else for (const [key, value] of Object.entries(out)) print(`${key}: ${value}`);
+}
+
+async function commandWhich(args: string[], options: Options) {
+	const source = await openSource(args[0], options);
+	if (!args[1]) throw new CliError('Missing path!', true);
+
+	if (!(source instanceof GameSystem)) {
+		const resolved = await source.resolvePath(args[1]);
+		if (resolved === undefined) throw new CliError(`'${args[1]}' does not exist!`);
+		if (options.json) printJSON([{ kind: source.kind, path: source.getPath(resolved) }]);
+		else print(source.getPath(resolved));
+		return;
+	}
+
+	const matches = await source.resolveAll(args[1], options.qualifier);
+	if (!matches.length) throw new CliError(`'${args[1]}' does not exist!`);
+
+	if (options.json) {
+		printJSON(matches.map(({ provider, ...rest }) => rest));
+		return;
+	}
+
+	matches.forEach((match, i) => {
+		const chunk = match.archiveIndex !== undefined ? ` (archive ${match.archiveIndex})` : '';
+		print(`${i === 0 ? '*' : ' '} [${match.kind}] ${match.path}${chunk} [${match.qualifiers.join('+')}]`);
+	});
+}
+
+async function commandExtract(args: string[], options: Options) {
+	const source = await openSource(args[0], options);
+	if (!args[1]) throw new CliError('Missing destination!', true);
+
+	const dest = toPosix(args[1]);
+	const controller = new AbortController();
+	process.once('SIGINT', () => controller.abort(new CliError('Extraction cancelled!')));
+
+	const result = await extract(source, new FolderSystem(nfs, dest), {
+		include: options.include,
+		exclude: options.exclude,
+		qualifier: options.qualifier,
+		overwrite: options.overwrite,
+		signal: controller.signal,
+		onProgress: (event) => {
+			if (event.status === 'failed') console.error(`Failed to extract '${event.path}'`);
+			else if (event.status === 'written' && !options.json) print(event.path);
+		},
+	});
+
+	if (options.json) printJSON(result);
+	else console.error(`Extracted ${result.written} files to '${dest}' (${result.skipped} skipped, ${result.failed.length} failed)`);
+	if (result.failed.length) process.exitCode = 1;
+}
+
+async function commandGames(args: string[], options: Options) {
+	const games = await getSteam(options).findGames();
+
+	if (options.json) {
+		printJSON(games);
+		return;
+	}
+
+	for (const game of games) {
+		const owner = game.sourcemod ? 'sourcemod' : game.appid;
+		print(`${game.name} [${owner}] ${game.modroot}`);
+	}
+}
+
+async function commandVerify(args: string[], options: Options) {
+	const source = await openSource(args[0], options);
+
+	const archives: (VpkSystem|GmaSystem)[] = [];
+	if (source instanceof VpkSystem || source instanceof GmaSystem) archives.push(source);
+	else if (source instanceof GameSystem) {
+		for (const [qualifiers, system] of source.providers) {
+			if (options.qualifier && !qualifiers.includes(options.qualifier)) continue;
+			if ((system instanceof VpkSystem || system instanceof GmaSystem) && !archives.includes(system)) archives.push(system);
+		}
+	}
+	else throw new CliError('Only VPKs, GMAs and games can be verified!');
+
+	const results = [];
+	for (const archive of archives) {
+		const report = await archive.verify();
+		const path = archive.getPath('');
+		results.push({ path, ok: report?.ok ?? false, report });
+
+		if (options.json) continue;
+		print(`${report?.ok ? 'OK  ' : 'FAIL'} ${path}`);
+
+		const failed = !report ? [] : 'files' in report
+			? report.files.filter(x => !x.ok).map(x => `${x.path} (${x.error})`)
+			: report.failed;
+		for (const file of failed) print(`       ${file}`);
+		if (report && 'truncated' in report && report.truncated) print('       (checksum sections are truncated)');
+	}
+
+	if (options.json) printJSON(results);
+	if (results.some(x => !x.ok)) process.exitCode = 1;
+}
+
+const COMMANDS: Record<string, (args: string[], options: Options) => Promise<void>> = {
+	ls: commandLs,
+	cat: commandCat,
+	stat: commandStat,
+	which: commandWhich,
+	extract: commandExtract,
+	games: commandGames,
+	verify: commandVerify,
+};
+
+async function main(argv: string[]) {
+	const { values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+	const [command, ...args] = positionals;
+
+	if (options.help || !command) {
+		print(USAGE);
+		return;
+	}
+
+	const run = COMMANDS[command];
+	if (!run) throw new CliError(`Unknown command '${command}'!`, true);
+
+	// Library logs would mix with the output, so they go to stderr and only when asked for.
+	setLogTarget({
+		log: options.verbose ? console.error : () => {},
+		warn: options.verbose ? console.error : () => {},
+		error: console.error,
+	});
+
+	if (options.cache) indexCache = new IndexCache(nfs, toPosix(options.cache));
+	await run(args, options);
+	if (indexCache && !await indexCache.save()) console.error(`sfs: Failed to write cache '${options.cache}'`);
+}
+
+// Stop quietly when piped into something like head.
+process.stdout.on('error', (e: NodeJS.ErrnoException) => {
+	if (e.code === 'EPIPE') process.exit(0);
+	throw e;
+});
+
+main(process.argv.slice(2)).catch(e => {
+	const usage = e instanceof TypeError && 'code' in e && String(e.code).startsWith('ERR_PARSE_ARGS');
+	if (e instanceof CliError || usage) {
+		console.error('sfs: ' + e.message);
+		if (usage || (e as CliError).usage) console.error("Run 'sfs --help' for usage.");
+	}
+	else {
+		console.error(e);
+	}
+	process.exitCode = 1;
+});
@@ -0,0 +1,101 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+	/** There is no gameinfo.txt or gameinfo.gi in the mod root. */
+	| 'gameinfo-missing'
+	/** The gameinfo could not be parsed or is missing a required block. */
+	| 'gameinfo-invalid'
+	/** The gameinfo's SteamAppId is not installed, so search paths fall back to the folder above the mod. */
+	| 'appid-unresolved'
+	/** A search path could not be turned into a location. */
+	| 'search-path-unresolved'
+	/** A search path or mount points to content that is missing or could not be opened. */
+	| 'provider-invalid'
+	/** A Strata mount or mount.cfg entry could not be mounted. */
+	| 'mount-failed'
+	/** A Strata mount entry has a type other than `vpk` or `dir`. */
+	| 'mount-unknown-type'
+	/** An archive's directory could not be read. */
+	| 'archive-missing'
+	/** An archive is malformed or uses an unsupported version. */
+	| 'archive-invalid'
+	/** A file's data could not be read from its archive chunk. */
+	| 'archive-read-failed'
+	/** The underlying filesystem threw while reading. */
+	| 'read-failed';
+
+/** Where the entry behind a diagnostic was written. */
+export interface DiagnosticOrigin {
+	/** The config file holding the entry, such as gameinfo.txt or cfg/mounts.kv. */
+	file: string;
+	/** The entry's key, such as `game+mod` for a search path or the appid of a mount. */
+	key: string;
+	value?: string;
+	/** 1-based line of the entry, when it could be found in the file. */
+	line?: number;
+}
+
+export interface Diagnostic {
+	severity: DiagnosticSeverity;
+	code: DiagnosticCode;
+	message: string;
+	/** The absolute path that the diagnostic is about. */
+	path?: string;
+	origin?: DiagnosticOrigin;
+	/** The underlying error or diagnostic, if any. */
+	cause?: unknown;
+}
+
+/** Base class for errors thrown by this library. */
+export class SfsError extends Error {
+	public readonly code: DiagnosticCode;
+	/** The absolute path of the file that caused the error. */
+	public readonly path?: string;
+
+	constructor(code: DiagnosticCode, message: string, options: { path?: string, cause?: unknown } = {}) {
+		super(message, { cause: options.cause });
+		this.name = new.target.name;
+		this.code = code;
+		this.path = options.path;
+	}
+}
+
+/** Thrown when an archive is malformed or uses an unsupported version. */
+export class ArchiveError extends SfsError {
+	constructor(message: string, options: { path?: string, cause?: unknown } = {}) {
+		super('archive-invalid', message, options);
+	}
+}
+
+/** Thrown when a gameinfo file cannot be used. */
+export class GameInfoError extends SfsError {
+	constructor(message: string, options: { path?: string, cause?: unknown } = {}) {
+		super('gameinfo-invalid', message, options);
+	}
+}
+
+/** Converts a thrown value into a diagnostic. Errors from this library keep their code. */
+export function toDiagnostic(error: unknown, fallback: DiagnosticCode, path?: string): Diagnostic {
+	return {
+		severity: 'error',
+		code: error instanceof SfsError ? error.code : fallback,
+		message: error instanceof Error ? error.message : String(error),
+		path: error instanceof SfsError ? error.path ?? path : path,
+		cause: error,
+	};
+}
+
+/** Adds a diagnostic unless one with the same code, path and origin was already reported. */
+export function addDiagnostic(list: Diagnostic[], diagnostic: Diagnostic): Diagnostic {
+	const existing = list.find(x => x.code === diagnostic.code && x.path === diagnostic.path
+		&& x.origin?.file === diagnostic.origin?.file && x.origin?.key === diagnostic.origin?.key && x.origin?.value === diagnostic.origin?.value);
+	if (existing) return existing;
+	list.push(diagnostic);
+	return diagnostic;
+}
+
+/** True if an error thrown by a filesystem just means that the path does not exist. */
+export function isNotFound(error: unknown): boolean {
+	const code = (error as { code?: unknown } | undefined)?.code;
+	return code === 'ENOENT' || code === 'ENOTDIR' || code === 'FileNotFound' || code === 'FileNotADirectory';
+}
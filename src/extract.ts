@@ -0,0 +1,155 @@
+import { type ReadableFileSystem, type WritableFileSystem, __console__ as console } from './index.js';
+import { GameSystem } from './game.js';
+import { VpkSystem } from './vpk.js';
+import { ZipSystem } from './zip.js';
+import { GmaSystem } from './gma.js';
+import { globRegExp } from './path.js';
+import { walkFiles } from './walk.js';
+
+export interface ExtractOptions {
+	/** Globs of the files to extract. Everything is extracted if empty. */
+	include?: string[];
+	/** Globs of the files to skip, checked after `include`. */
+	exclude?: string[];
+	/** Only extract from search paths with this path ID. Only applies to GameSystem sources. */
+	qualifier?: string;
+	/** Replace files that already exist in the destination. Defaults to false. */
+	overwrite?: boolean;
+	/** Stops the extraction before the next file. The returned promise rejects with the signal's reason. */
+	signal?: AbortSignal;
+	/** Called after each file is handled. */
+	onProgress?: (event: ExtractProgress) => void;
+}
+
+export interface ExtractProgress {
+	path: string;
+	status: 'written' | 'skipped' | 'failed';
+	/** Files handled so far, including this one. */
+	done: number;
+	/** Files that matched the filters. */
+	total: number;
+	/** Bytes written so far. */
+	bytes: number;
+}
+
+export interface ExtractResult {
+	written: number;
+	skipped: number;
+	/** Paths that could not be read or written. */
+	failed: string[];
+	bytes: number;
+}
+
+/** A file to extract, along with where its data lives so that reads can be ordered. */
+interface ExtractEntry {
+	path: string;
+	source: ReadableFileSystem;
+	/** Identifies the archive or folder holding the file. Entries are grouped by this in first-seen order. */
+	group: number;
+	archiveIndex: number;
+	offset: number;
+}
+
+/** Lists the files of a source. Archive-backed entries carry their location so that each chunk is read front to back once. */
+async function listEntries(source: ReadableFileSystem, qualifier?: string): Promise<ExtractEntry[]> {
+	if (source instanceof GameSystem) {
+		const groups = new Map<ReadableFileSystem, number>();
+		const out: ExtractEntry[] = [];
+
+		for (const file of await source.listFiles(qualifier)) {
+			const provider = file.winner.provider;
+			if (!groups.has(provider)) groups.set(provider, groups.size);
+
+			let offset = file.winner.offset ?? 0;
+			if (provider instanceof ZipSystem || provider instanceof GmaSystem) offset = archiveOffset(provider, file.path);
+			out.push({ path: file.path, source: provider, group: groups.get(provider)!, archiveIndex: file.winner.archiveIndex ?? 0, offset });
+		}
+		return out;
+	}
+
+	if (source instanceof VpkSystem) {
+		if (!await source.validate()) return [];
+		return Object.entries(source.files).map(([key, info]) => ({
+			path: key.slice(1),
+			source,
+			group: 0,
+			archiveIndex: info.archiveIndex,
+			offset: info.offset,
+		}));
+	}
+
+	if (source instanceof ZipSystem || source instanceof GmaSystem) {
+		if (!await source.validate()) return [];
+		return Object.keys(source.index.files).map(key => ({
+			path: key.slice(1),
+			source,
+			group: 0,
+			archiveIndex: 0,
+			offset: archiveOffset(source, key),
+		}));
+	}
+
+	const out: ExtractEntry[] = [];
+	for await (const path of walkFiles(source)) out.push({ path, source, group: 0, archiveIndex: 0, offset: 0 });
+	return out;
+}
+
+function archiveOffset(archive: ZipSystem|GmaSystem, path: string): number {
+	if (archive instanceof ZipSystem) return archive.index.getFile(path)?.localOffset ?? 0;
+	return archive.index.getFile(path)?.offset ?? 0;
+}
+
+/**
+ * Copies files from any filesystem into a writable one, keeping their relative paths.
+ * Reads are ordered by archive and offset, so every VPK chunk is read from front to back once.
+ * Files that fail are reported in the result instead of stopping the extraction.
+ */
+export async function extract(source: ReadableFileSystem, destination: WritableFileSystem, options: ExtractOptions = {}): Promise<ExtractResult> {
+	options.signal?.throwIfAborted();
+
+	const include = (options.include ?? []).map(globRegExp);
+	const exclude = (options.exclude ?? []).map(globRegExp);
+
+	const entries = (await listEntries(source, options.qualifier)).filter(entry => {
+		if (include.length && !include.some(x => x.test(entry.path))) return false;
+		return !exclude.some(x => x.test(entry.path));
+	});
+	entries.sort((a, b) => (a.group - b.group) || (a.archiveIndex - b.archiveIndex) || (a.offset - b.offset) || (a.path < b.path ? -1 : 1));
+
+	const result: ExtractResult = { written: 0, skipped: 0, failed: [], bytes: 0 };
+	let done = 0;
+
+	for (const entry of entries) {
+		options.signal?.throwIfAborted();
+
+		let status: ExtractProgress['status'];
+		if (!options.overwrite && await destination.stat(entry.path)) {
+			status = 'skipped';
+			result.skipped++;
+		}
+		else {
+			let data: Uint8Array|undefined;
+			try {
+				data = await entry.source.readFile(entry.path);
+			}
+			catch(e) {
+				console.error(e);
+			}
+
+			if (data && await destination.writeFile(entry.path, data)) {
+				status = 'written';
+				result.written++;
+				result.bytes += data.length;
+			}
+			else {
+				status = 'failed';
+				result.failed.push(entry.path);
+			}
+		}
+
+		done++;
+		options.onProgress?.({ path: entry.path, status, done, total: entries.length, bytes: result.bytes });
+	}
+
+	return result;
+}
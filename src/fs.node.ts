@@ -1,8 +1,10 @@
-import { FileType, type FileStat, type ReadableFileSystem } from './index.js';
-import { readFile, readdir, stat } from 'fs/promises';
-import { join, relative } from 'path/posix';
+import { FileChangeType, FileType, type Disposable, type FileChangeEvent, type FileStat, type WritableFileSystem } from './index.js';
+import { STREAM_CHUNK_SIZE } from './stream.js';
+import { watch, type FSWatcher } from 'fs';
+import { mkdir, open, readFile, readdir, rename, rm, rmdir, stat, writeFile, type FileHandle } from 'fs/promises';
+import { dirname, join, relative } from 'path/posix';
 
-export class NodeSystem implements ReadableFileSystem {
+export class NodeSystem implements WritableFileSystem {
 	async readFile(path: string): Promise<Uint8Array | undefined> {
 		try {
 			const file = await readFile(path);
@@ -13,6 +15,66 @@ export class NodeSystem implements ReadableFileSystem {
 		}
 	}
 
+	async readFileRange(path: string, offset: number, length: number): Promise<Uint8Array | undefined> {
+		try {
+			const handle = await open(path, 'r');
+			try {
+				const out = new Uint8Array(length);
+				let read = 0;
+				while (read < length) {
+					const { bytesRead } = await handle.read(out, read, length - read, offset + read);
+					if (!bytesRead) break;
+					read += bytesRead;
+				}
+				return read === length ? out : out.slice(0, read);
+			}
+			finally {
+				await handle.close();
+			}
+		}
+		catch {
+			return undefined;
+		}
+	}
+
+	async readFileStream(path: string): Promise<ReadableStream<Uint8Array> | undefined> {
+		let handle: FileHandle;
+		try {
+			handle = await open(path, 'r');
+			if (!(await handle.stat()).isFile()) {
+				await handle.close();
+				return undefined;
+			}
+		}
+		catch {
+			return undefined;
+		}
+
+		let position = 0;
+		return new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				try {
+					const buffer = new Uint8Array(STREAM_CHUNK_SIZE);
+					const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+					if (!bytesRead) {
+						await handle.close();
+						controller.close();
+						return;
+					}
+					position += bytesRead;
+					controller.enqueue(buffer.subarray(0, bytesRead));
+				}
+				catch(e) {
+					await handle.close().catch(() => {});
+					controller.error(e);
+				}
+			},
+			async cancel() {
+				await handle.close();
+			},
+		});
+	}
+
 	async readDirectory(path: string): Promise<[string, FileType][] | undefined> {
 		try {
 			const dir = await readdir(path, { withFileTypes: true, recursive: false });
@@ -43,4 +105,74 @@ export class NodeSystem implements ReadableFileSystem {
 			return undefined;
 		}
 	}
+
+	async writeFile(path: string, data: Uint8Array): Promise<boolean> {
+		try {
+			await mkdir(dirname(path), { recursive: true });
+			await writeFile(path, data);
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	async delete(path: string, options?: { recursive?: boolean }): Promise<boolean> {
+		try {
+			// Like VSC, non-recursive deletes of empty directories are allowed.
+			if (!options?.recursive && (await stat(path)).isDirectory()) await rmdir(path);
+			else await rm(path, { recursive: options?.recursive ?? false });
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	async createDirectory(path: string): Promise<boolean> {
+		try {
+			await mkdir(path, { recursive: true });
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	async rename(source: string, target: string, options?: { overwrite?: boolean }): Promise<boolean> {
+		try {
+			if (!options?.overwrite && await this.stat(target)) return false;
+			await mkdir(dirname(target), { recursive: true });
+			await rename(source, target);
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	watch(path: string, listener: (event: FileChangeEvent) => void, options?: { recursive?: boolean }): Disposable {
+		let watcher: FSWatcher | undefined;
+		try {
+			watcher = watch(path, { recursive: options?.recursive ?? false, persistent: false }, (event, filename) => {
+				const full = filename ? join(path, filename.toString().replaceAll('\\', '/')) : path;
+				if (event === 'change') {
+					listener({ type: FileChangeType.Changed, path: full });
+					return;
+				}
+
+				// Node reports both creation and deletion as a rename.
+				stat(full).then(
+					() => listener({ type: FileChangeType.Created, path: full }),
+					() => listener({ type: FileChangeType.Deleted, path: full }),
+				);
+			});
+			watcher.on('error', () => watcher?.close());
+		}
+		catch {
+			watcher = undefined;
+		}
+
+		return { dispose: () => watcher?.close() };
+	}
 }
@@ -1,7 +1,7 @@
-import { FileType, type FileStat, type ReadableFileSystem } from './index.js';
-import { workspace, Uri } from 'vscode';
+import { FileChangeType, FileType, type Disposable, type FileChangeEvent, type FileStat, type WritableFileSystem } from './index.js';
+import { workspace, Uri, RelativePattern } from 'vscode';
 
-export class VSCodeSystem implements ReadableFileSystem {
+export class VSCodeSystem implements WritableFileSystem {
 
 	async readFile(path: string): Promise<Uint8Array | undefined> {
 		return new Uint8Array(await workspace.fs.readFile(Uri.file(path)));
@@ -14,4 +14,55 @@ export class VSCodeSystem implements ReadableFileSystem {
 	async stat(path: string): Promise<FileStat | undefined> {
 		return workspace.fs.stat(Uri.file(path));
 	}
+
+	async writeFile(path: string, data: Uint8Array): Promise<boolean> {
+		try {
+			await workspace.fs.writeFile(Uri.file(path), data);
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	async delete(path: string, options?: { recursive?: boolean }): Promise<boolean> {
+		try {
+			await workspace.fs.delete(Uri.file(path), { recursive: options?.recursive ?? false, useTrash: false });
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	async createDirectory(path: string): Promise<boolean> {
+		try {
+			await workspace.fs.createDirectory(Uri.file(path));
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	async rename(source: string, target: string, options?: { overwrite?: boolean }): Promise<boolean> {
+		try {
+			await workspace.fs.rename(Uri.file(source), Uri.file(target), { overwrite: options?.overwrite ?? false });
+			return true;
+		}
+		catch {
+			return false;
+		}
+	}
+
+	watch(path: string, listener: (event: FileChangeEvent) => void, options?: { recursive?: boolean }): Disposable {
+		const pattern = new RelativePattern(Uri.file(path), options?.recursive ? '**/*' : '*');
+		const watcher = workspace.createFileSystemWatcher(pattern);
+		const emit = (type: FileChangeType) => (uri: Uri) => listener({ type, path: uri.fsPath.replaceAll('\\', '/') });
+
+		watcher.onDidChange(emit(FileChangeType.Changed));
+		watcher.onDidCreate(emit(FileChangeType.Created));
+		watcher.onDidDelete(emit(FileChangeType.Deleted));
+		return watcher;
+	}
 }
@@ -0,0 +1,455 @@
+import { describe, expect, test } from 'bun:test';
+import { GameSystem, MemorySystem, SteamCache, VpkBuilder, VpkSystem, extract, setLogTarget, type ReadableFileSystem } from './index.js';
+import { FolderSystem } from './game.js';
+import { normalizePath } from './path.js';
+
+setLogTarget({ log() {}, warn() {}, error() {} });
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const GAMEINFO = `"GameInfo"
+{
+	game	"Test Mod"
+	FileSystem
+	{
+		SteamAppId	243750
+		SearchPaths
+		{
+			game+mod+mod_write+default_write_path	|gameinfo_path|.
+		}
+	}
+}`;
+
+/** Builds a VPK and writes it and its chunks into the filesystem. */
+async function writeVpk(fs: MemorySystem, path: string, files: Record<string, string>) {
+	const builder = new VpkBuilder();
+	for (const name in files) builder.addFile(name, encoder.encode(files[name]));
+	for (const [chunk, data] of Object.entries(builder.build(path))) await fs.writeFile(chunk, data);
+}
+
+/** A mod in /game/mod with a pak01 archive and loose files, next to a platform folder. */
+async function createFixture(): Promise<MemorySystem> {
+	const fs = new MemorySystem({
+		'/game/mod/gameinfo.txt': GAMEINFO,
+		'/game/mod/scripts/shared.txt': 'loose',
+		'/game/mod/scripts/loose.txt': 'loose',
+		'/game/platform/resource/platform_english.txt': '',
+	});
+	await writeVpk(fs, '/game/mod/pak01_dir.vpk', {
+		'materials/tools/nodraw.vmt': '"UnlitGeneric" {}',
+		'scripts/shared.txt': 'vpk',
+	});
+	return fs;
+}
+
+function createGame(fs: MemorySystem): GameSystem {
+	return new GameSystem(fs, '/game/mod', new SteamCache(fs, '/steam'));
+}
+
+describe('GameSystem', () => {
+	test('parses a mod whose app is not installed', async () => {
+		const game = createGame(await createFixture());
+		expect(await game.validate()).toBe(true);
+		expect(game.name).toBe('Test Mod');
+		expect(game.diagnostics.map(x => x.code)).toEqual(['appid-unresolved']);
+	});
+
+	test('reads files through the search paths in order', async () => {
+		const game = createGame(await createFixture());
+		expect(decoder.decode(await game.readFile('materials/tools/nodraw.vmt'))).toBe('"UnlitGeneric" {}');
+		expect(decoder.decode(await game.readFile('scripts/shared.txt'))).toBe('vpk');
+		expect(decoder.decode(await game.readFile('scripts/loose.txt'))).toBe('loose');
+		expect(decoder.decode(await game.readFile('resource/platform_english.txt', 'platform'))).toBe('');
+		expect(await game.readFile('scripts/loose.txt', 'platform')).toBeUndefined();
+		expect(await game.getPath('scripts/shared.txt')).toBe('/game/mod/pak01_dir.vpk/scripts/shared.txt');
+	});
+
+	test('merges directories from every provider', async () => {
+		const game = createGame(await createFixture());
+		const entries = (await game.readDirectory('scripts'))?.map(x => x[0]).sort();
+		expect(entries).toEqual(['loose.txt', 'shared.txt']);
+	});
+
+	test('writes to the default write path', async () => {
+		const fs = await createFixture();
+		const game = createGame(fs);
+		expect(await game.writeFile('cfg/autoexec.cfg', encoder.encode('echo hi'))).toBe('/game/mod/cfg/autoexec.cfg');
+		expect(decoder.decode(await fs.readFile('/game/mod/cfg/autoexec.cfg'))).toBe('echo hi');
+	});
+});
+
+/**
+ * A Steam install in /steam with one app, whose files are given relative to the app's folder.
+ * Each VPK holds one file named after it, unless `contents` lists its files.
+ */
+async function createSteamApp(appid: string, installdir: string, files: Record<string, string>, vpks: string[], contents: Record<string, Record<string, string>> = {}): Promise<MemorySystem> {
+	const app_root = `/steam/steamapps/common/${installdir}/`;
+	const fs = new MemorySystem({
+		'/steam/steamapps/libraryfolders.vdf': `"libraryfolders" { "0" { "path" "/steam" "apps" { "${appid}" "0" } } }`,
+		[`/steam/steamapps/appmanifest_${appid}.acf`]: `"AppState" { "appid" "${appid}" "name" "${installdir}" "installdir" "${installdir}" "StateFlags" "4" }`,
+	});
+	for (const path in files) await fs.writeFile(app_root + path, encoder.encode(files[path]));
+	for (const path of vpks) await writeVpk(fs, app_root + path, contents[path] ?? { [path + '.txt']: path });
+	return fs;
+}
+
+/** Lists the providers as `qualifiers kind path`, with paths relative to the app's folder. */
+function describeProviders(game: GameSystem, installdir: string): string[] {
+	const app_root = `/steam/steamapps/common/${installdir}/`;
+	return game.providers.map(([qualifiers, system]) => {
+		const path = system.getPath('').replace(/\/$/, '');
+		return `${qualifiers.join('+')} ${system.kind} ${path.startsWith(app_root) ? path.slice(app_root.length) : path}`;
+	});
+}
+
+const HL2_GAMEINFO = `"GameInfo"
+{
+	game	"Half-Life 2"
+	FileSystem
+	{
+		SteamAppId	220
+		SearchPaths
+		{
+			game+mod			hl2/hl2_english.vpk
+			game+mod			hl2/hl2_pak.vpk
+			game				|all_source_engine_paths|hl2/hl2_textures.vpk
+			game				|all_source_engine_paths|hl2/hl2_misc.vpk
+			platform			|all_source_engine_paths|platform/platform_misc.vpk
+			mod+mod_write+default_write_path		|gameinfo_path|.
+			game+game_write		|gameinfo_path|.
+			gamebin				|gameinfo_path|bin
+			game_lv				hl2/hl2_lv.vpk
+			game+mod			|all_source_engine_paths|hl2
+			platform			|all_source_engine_paths|platform
+		}
+	}
+}`;
+
+const TF2_GAMEINFO = `"GameInfo"
+{
+	game	"Team Fortress 2"
+	FileSystem
+	{
+		SteamAppId	440
+		SearchPaths
+		{
+			game+mod+custom_mod	tf/custom/*
+			game_lv				tf/tf2_lv.vpk
+			game+mod			tf/tf2_textures.vpk
+			game+mod			tf/tf2_misc.vpk
+			game+vgui			|all_source_engine_paths|hl2/hl2_textures.vpk
+			game+vgui			|all_source_engine_paths|hl2/hl2_misc.vpk
+			mod+mod_write+default_write_path		|gameinfo_path|.
+			game_write			|gameinfo_path|.
+			gamebin				|gameinfo_path|bin
+			game				|all_source_engine_paths|tf
+			game				|all_source_engine_paths|hl2
+		}
+	}
+}`;
+
+const GMOD_GAMEINFO = `"GameInfo"
+{
+	game	"Garry's Mod"
+	FileSystem
+	{
+		SteamAppId	4000
+		SearchPaths
+		{
+			game+mod			garrysmod/garrysmod.vpk
+			mod+mod_write+default_write_path		|gameinfo_path|.
+			game+game_write		|gameinfo_path|.
+			platform			|all_source_engine_paths|platform
+		}
+	}
+}`;
+
+const PORTAL2_GAMEINFO = `"GameInfo"
+{
+	game	"Portal 2"
+	FileSystem
+	{
+		SteamAppId	620
+		SearchPaths
+		{
+			Game				|gameinfo_path|.
+			Game				portal2_dlc2
+			Game				portal2_dlc1
+			Game				portal2
+			Game				platform
+		}
+	}
+}`;
+
+describe('GameSystem search paths', () => {
+	async function createHL2(lowViolence: boolean, files: Record<string, string> = {}) {
+		const fs = await createSteamApp('220', 'Half-Life 2', {
+			'hl2/gameinfo.txt': HL2_GAMEINFO,
+			'hl2/bin/server.so': '',
+			...files,
+		}, ['hl2/hl2_english_dir.vpk', 'hl2/hl2_pak_dir.vpk', 'hl2/hl2_textures_dir.vpk', 'hl2/hl2_misc_dir.vpk', 'hl2/hl2_lv_dir.vpk', 'platform/platform_misc_dir.vpk']);
+		const game = new GameSystem(fs, '/steam/steamapps/common/Half-Life 2/hl2', new SteamCache(fs, '/steam'), { lowViolence });
+		expect(await game.validate()).toBe(true);
+		expect(game.diagnostics).toEqual([]);
+		return game;
+	}
+
+	test('mounts the Half-Life 2 layout', async () => {
+		const game = await createHL2(false);
+		expect(describeProviders(game, 'Half-Life 2')).toEqual([
+			'game+mod vpk hl2/hl2_english_dir.vpk',
+			'game+mod vpk hl2/hl2_pak_dir.vpk',
+			'game vpk hl2/hl2_textures_dir.vpk',
+			'game vpk hl2/hl2_misc_dir.vpk',
+			'platform vpk platform/platform_misc_dir.vpk',
+			'mod+mod_write+default_write_path dir hl2',
+			'game+game_write dir hl2',
+			'gamebin dir hl2/bin',
+			'platform dir platform',
+		]);
+
+		// Both entries for the mod folder share one provider.
+		expect(game.providers[6][1]).toBe(game.providers[5][1]);
+	});
+
+	test('mounts game_lv paths only in low violence mode', async () => {
+		const game = await createHL2(true);
+		expect(describeProviders(game, 'Half-Life 2').slice(7, 9)).toEqual([
+			'gamebin dir hl2/bin',
+			'game vpk hl2/hl2_lv_dir.vpk',
+		]);
+		expect(decoder.decode(await game.readFile('hl2/hl2_lv_dir.vpk.txt', 'game'))).toBe('hl2/hl2_lv_dir.vpk');
+	});
+
+	test('reports a folder mounted under several path IDs once', async () => {
+		const game = await createHL2(false, {
+			'hl2/scripts/loose.txt': 'loose',
+			'hl2/hl2/hl2_misc_dir.vpk.txt': 'loose',
+		});
+
+		const matches = await game.resolveAll('scripts/loose.txt');
+		expect(matches.map(x => `${x.qualifiers.join('+')} ${x.kind}`)).toEqual(['mod+mod_write+default_write_path+game+game_write dir']);
+
+		const overrides = await game.getOverrides();
+		expect(overrides.map(x => [x.path, x.winner.kind, x.shadowed.map(y => y.kind)])).toEqual([['hl2/hl2_misc_dir.vpk.txt', 'vpk', ['dir']]]);
+
+		const files = await game.listFiles('game');
+		expect(files.filter(x => x.path === 'scripts/loose.txt').map(x => x.winner.qualifiers)).toEqual([['mod', 'mod_write', 'default_write_path', 'game', 'game_write']]);
+	});
+
+	async function createTF2(files: Record<string, string> = {}, contents: Record<string, Record<string, string>> = {}) {
+		const fs = await createSteamApp('440', 'Team Fortress 2', {
+			'tf/gameinfo.txt': TF2_GAMEINFO,
+			'tf/custom/.keep': '',
+			'tf/custom/mymod/materials/mymod.vmt': '',
+			'tf/bin/server.so': '',
+			'tf/addons/metamod.vdf': '',
+			'tf/addons/sourcemod/configs/core.cfg': '',
+			'hl2/resource/hl2_english.txt': '',
+			'platform/resource/platform_english.txt': '',
+			...files,
+		}, ['tf/custom/pack.vpk', 'tf/tf2_textures_dir.vpk', 'tf/tf2_misc_dir.vpk', 'hl2/hl2_textures_dir.vpk', 'hl2/hl2_misc_dir.vpk'], contents);
+		const game = new GameSystem(fs, '/steam/steamapps/common/Team Fortress 2/tf', new SteamCache(fs, '/steam'));
+		expect(await game.validate()).toBe(true);
+		expect(game.diagnostics).toEqual([]);
+		return game;
+	}
+
+	test('mounts the Team Fortress 2 layout and the implicit platform folder', async () => {
+		const game = await createTF2();
+		expect(describeProviders(game, 'Team Fortress 2')).toEqual([
+			'game+mod+custom_mod dir tf/custom/mymod',
+			'game+mod+custom_mod vpk tf/custom/pack.vpk',
+			'game+mod vpk tf/tf2_textures_dir.vpk',
+			'game+mod vpk tf/tf2_misc_dir.vpk',
+			'game+vgui vpk hl2/hl2_textures_dir.vpk',
+			'game+vgui vpk hl2/hl2_misc_dir.vpk',
+			'mod+mod_write+default_write_path dir tf',
+			'game_write dir tf',
+			'gamebin dir tf/bin',
+			'game dir tf',
+			'game dir hl2',
+			'platform dir platform',
+		]);
+	});
+
+	test('reports which Team Fortress 2 providers hold a file', async () => {
+		const scout = 'materials/models/player/scout.vmt';
+		const game = await createTF2({
+			['tf/custom/mymod/' + scout]: 'custom',
+			['tf/' + scout]: 'loose',
+		}, {
+			'tf/tf2_textures_dir.vpk': { [scout]: 'vpk!' },
+		});
+		const tf = '/steam/steamapps/common/Team Fortress 2/tf/';
+
+		const matches = await game.resolveAll(scout);
+		expect(matches.map(x => `${x.qualifiers.join('+')} ${x.kind} ${x.path}`)).toEqual([
+			`game+mod+custom_mod dir ${tf}custom/mymod/${scout}`,
+			`game+mod vpk ${tf}tf2_textures_dir.vpk/${scout}`,
+			`mod+mod_write+default_write_path+game_write+game dir ${tf}${scout}`,
+		]);
+		expect(matches.map(x => x.size)).toEqual([6, 4, 5]);
+		expect(matches[1].archiveIndex).toBe(0);
+		expect((await game.resolveAll(scout, 'mod_write')).map(x => x.kind)).toEqual(['dir']);
+		expect(decoder.decode(await game.readFile(scout))).toBe('custom');
+
+		const overrides = await game.getOverrides();
+		expect(overrides.map(x => [x.path, x.winner.path, x.shadowed.map(y => y.path)])).toEqual([
+			[scout, `${tf}custom/mymod/${scout}`, [`${tf}tf2_textures_dir.vpk/${scout}`, `${tf}${scout}`]],
+		]);
+	});
+
+	test('finds and extracts the winning copies of Team Fortress 2 files', async () => {
+		const game = await createTF2({
+			'tf/custom/mymod/materials/a.vmt': 'custom',
+			'tf/materials/a.vmt': 'loose',
+			'tf/materials/b.vmt': 'loose',
+		});
+
+		const found = await game.find('materials/*.vmt');
+		expect(found.map(x => [x.path, x.provider.getPath('')])).toEqual([
+			['materials/a.vmt', '/steam/steamapps/common/Team Fortress 2/tf/custom/mymod'],
+			['materials/mymod.vmt', '/steam/steamapps/common/Team Fortress 2/tf/custom/mymod'],
+			['materials/b.vmt', '/steam/steamapps/common/Team Fortress 2/tf'],
+		]);
+
+		const destination = new MemorySystem();
+		const result = await extract(game, destination, { include: ['materials/**'] });
+		expect(result.written).toBe(3);
+		expect(result.failed).toEqual([]);
+		expect(decoder.decode(await destination.readFile('materials/a.vmt'))).toBe('custom');
+		expect(decoder.decode(await destination.readFile('materials/b.vmt'))).toBe('loose');
+	});
+
+	test('mounts addon folders below the search paths in Garry\'s Mod', async () => {
+		const fs = await createSteamApp('4000', 'GarrysMod', {
+			'garrysmod/gameinfo.txt': GMOD_GAMEINFO,
+			'garrysmod/addons/myaddon/lua/autorun/test.lua': '',
+			'platform/resource/platform_english.txt': '',
+		}, ['garrysmod/garrysmod_dir.vpk']);
+		const game = new GameSystem(fs, '/steam/steamapps/common/GarrysMod/garrysmod', new SteamCache(fs, '/steam'));
+		expect(await game.validate()).toBe(true);
+
+		expect(describeProviders(game, 'GarrysMod')).toEqual([
+			'game+mod vpk garrysmod/garrysmod_dir.vpk',
+			'mod+mod_write+default_write_path dir garrysmod',
+			'game+game_write dir garrysmod',
+			'platform dir platform',
+			'game dir garrysmod/addons/myaddon',
+		]);
+	});
+
+	test('mounts the Portal 2 layout with pak01 archives', async () => {
+		const fs = await createSteamApp('620', 'Portal 2', {
+			'portal2/gameinfo.txt': PORTAL2_GAMEINFO,
+		}, ['portal2/pak01_dir.vpk', 'portal2_dlc1/pak01_dir.vpk', 'portal2_dlc2/pak01_dir.vpk', 'platform/pak01_dir.vpk']);
+		const game = new GameSystem(fs, '/steam/steamapps/common/Portal 2/portal2', new SteamCache(fs, '/steam'));
+		expect(await game.validate()).toBe(true);
+		expect(game.diagnostics).toEqual([]);
+
+		// portal2 is listed twice but only mounted once, and platform is also mounted as a platform path.
+		expect(describeProviders(game, 'Portal 2')).toEqual([
+			'game vpk portal2/pak01_dir.vpk',
+			'game dir portal2',
+			'game vpk portal2_dlc2/pak01_dir.vpk',
+			'game dir portal2_dlc2',
+			'game vpk portal2_dlc1/pak01_dir.vpk',
+			'game dir portal2_dlc1',
+			'game vpk platform/pak01_dir.vpk',
+			'game dir platform',
+			'platform vpk platform/pak01_dir.vpk',
+			'platform dir platform',
+		]);
+		expect(game.providers[8][1]).toBe(game.providers[6][1]);
+		expect(game.providers[9][1]).toBe(game.providers[7][1]);
+		expect(decoder.decode(await game.readFile('portal2_dlc1/pak01_dir.vpk.txt'))).toBe('portal2_dlc1/pak01_dir.vpk');
+	});
+});
+
+describe('GameSystem addons', () => {
+	const GAMEINFO_GI = `"GameInfo"
+{
+	game	"Addon Test"
+	FileSystem
+	{
+		SearchPaths
+		{
+			Game		mod
+			Game		core
+			AddonRoot	mod_addons
+		}
+	}
+}`;
+
+	function describeOrder(game: GameSystem): string[] {
+		return game.providers.map(([, system]) => system.kind === 'memory' ? 'overlay' : system.getPath('').replace(/\/$/, '').slice('/game/'.length));
+	}
+
+	test('keeps addons between the overlays and the search paths across reloads', async () => {
+		const fs = new MemorySystem({
+			'/game/mod/gameinfo.gi': GAMEINFO_GI,
+			'/game/mod/shared.txt': 'mod',
+			'/game/core/core.txt': 'core',
+			'/game/mod_addons/myaddon/shared.txt': 'addon',
+		});
+		const game = new GameSystem(fs, '/game/mod', new SteamCache(fs, '/steam'));
+		expect(await game.mountOverlay(new MemorySystem({ 'overlay.txt': '' }))).toBe(true);
+		expect(await game.mountAddon('myaddon')).toBe(true);
+
+		const order = ['overlay', 'mod_addons/myaddon', 'mod', 'core'];
+		expect(describeOrder(game)).toEqual(order);
+		expect(decoder.decode(await game.readFile('shared.txt'))).toBe('addon');
+
+		expect(await game.reload()).toBe(true);
+		expect(describeOrder(game)).toEqual(order);
+		expect(decoder.decode(await game.readFile('shared.txt'))).toBe('addon');
+	});
+});
+
+describe('FolderSystem', () => {
+	/** Exposes a filesystem without range reads, counting how often each file is read in full. */
+	function withoutRanges(fs: MemorySystem, reads: string[]): ReadableFileSystem {
+		return {
+			readFile: (path) => { reads.push(path); return fs.readFile(path); },
+			readDirectory: (path) => fs.readDirectory(path),
+			stat: (path) => fs.stat(path),
+		};
+	}
+
+	test('finds entries created after their folder was listed', async () => {
+		const fs = new MemorySystem({ '/game/materials/a.vmt': 'a' });
+		// Like a case-sensitive disk: only exact paths resolve.
+		const exact = async (path: string) => await fs.resolvePath(path) === normalizePath(path);
+		const folder = new FolderSystem({
+			readFile: async (path) => await exact(path) ? fs.readFile(path) : undefined,
+			readDirectory: async (path) => await exact(path) ? fs.readDirectory(path) : undefined,
+			stat: async (path) => await exact(path) ? fs.stat(path) : undefined,
+		}, '/game');
+
+		expect(decoder.decode(await folder.readFile('Materials/A.vmt'))).toBe('a');
+		expect(await folder.readFile('Materials/B.vmt')).toBeUndefined();
+
+		await fs.writeFile('/game/materials/b.vmt', encoder.encode('b'));
+		await fs.writeFile('/game/models/c.mdl', encoder.encode('c'));
+		expect(decoder.decode(await folder.readFile('Materials/B.vmt'))).toBe('b');
+		expect(decoder.decode(await folder.readFile('MODELS/c.mdl'))).toBe('c');
+	});
+
+	test('only offers range reads when the underlying filesystem has them', async () => {
+		const fs = new MemorySystem({ '/game/a.txt': 'abc' });
+		expect(new FolderSystem(fs, '/game').readFileRange).toBeDefined();
+		expect(new FolderSystem(withoutRanges(fs, []), '/game').readFileRange).toBeUndefined();
+	});
+
+	test('lets archives cache their chunks without range reads', async () => {
+		const fs = new MemorySystem();
+		await writeVpk(fs, '/game/pak01_dir.vpk', { 'a.txt': 'a', 'b.txt': 'b' });
+		const reads: string[] = [];
+		const vpk = new VpkSystem(new FolderSystem(withoutRanges(fs, reads), '/game'), 'pak01_dir.vpk');
+
+		for (let i = 0; i < 5; i++) expect(decoder.decode(await vpk.readFile(i % 2 ? 'a.txt' : 'b.txt'))).toBe(i % 2 ? 'a' : 'b');
+		expect(reads.filter(x => x.endsWith('_000.vpk'))).toEqual(['/game/pak01_000.vpk']);
+	});
+});
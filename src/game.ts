@@ -1,47 +1,85 @@
-import { FileType, InitState, type FileStat, type ReadableFileSystem, __console__ as console } from './index.js';
+import { FileChangeType, FileType, InitState, isWritable, type Disposable, type FileChangeEvent, type FileStat, type ReadableFileSystem, type WritableFileSystem, __console__ as console } from './index.js';
 import { VpkSystem } from './vpk.js';
+import { ZipSystem } from './zip.js';
+import { BspPakSystem } from './bsp.js';
+import { GmaSystem } from './gma.js';
+import { ArchiveCache, IndexCache, stampFile, trackStamps, type IndexStamp } from './cache.js';
+import { MemorySystem } from './memory.js';
+import { LazyLoader } from './archive.js';
+import { foldPath, globRegExp, hasWildcard, normalizePath, wildcardRegExp } from './path.js';
+import { expandGlob, walkFiles } from './walk.js';
+import { bytesStream, rangeStream } from './stream.js';
+import { GameInfoError, addDiagnostic, isNotFound, toDiagnostic, type Diagnostic, type DiagnosticOrigin } from './errors.js';
 
 import { parse as parseStringKV, KeyVRoot, KeyV, type KeyVChild } from 'fast-vdf';
-import { join, normalize } from 'path/posix';
+import { basename, dirname, join, normalize, relative } from 'path/posix';
 import { platform } from 'os';
-import { NodeSystem } from './fs.node.js';
-import { globSync } from 'glob';
+
+const AUTO_VPK = 'pak01_dir.vpk';
+const GMOD_APPID = '4000';
+const ARCHIVE_CHUNK = /_\d{3}\.vpk$/i;
+const WATCH_DELAY = 250;
+const CONFIG_FILES = ['gameinfo.txt', 'gameinfo.gi', 'cfg/mounts.kv', 'cfg/mount.cfg'];
 
 const GAMEINFO_PREFIX = '|gameinfo_path|';
 const ALL_SOURCE_PREFIX = '|all_source_engine_paths|';
 
-function parseSearchPath(path: string, gamePath: string|undefined, modPath: string, giPath: string): string | undefined {
+/**
+ * Resolves a search path location. Like the engine, both `|all_source_engine_paths|` and unprefixed
+ * locations are relative to the base directory (the folder holding the game executable).
+ */
+function parseSearchPath(path: string, basePath: string|undefined, giPath: string): string | undefined {
 	const pathLower = path.toLowerCase();
 
 	if (pathLower.startsWith(GAMEINFO_PREFIX)) {
 		return join(giPath, path.slice(GAMEINFO_PREFIX.length));
 	}
 
-	else if (pathLower.startsWith(ALL_SOURCE_PREFIX)) {
-		return join(modPath, path.slice(ALL_SOURCE_PREFIX.length));
+	if (basePath === undefined) return;
+
+	if (pathLower.startsWith(ALL_SOURCE_PREFIX)) {
+		return join(basePath, path.slice(ALL_SOURCE_PREFIX.length));
 	}
 
-	if (gamePath === undefined) return;
-	return join(gamePath, path);
+	return join(basePath, path);
 }
 
-function parseGlobSearchPath(fs: ReadableFileSystem, sp: string, gamePath: string|undefined, modPath: string, giPath: string): string[] | undefined {
-	const globbyPath = parseSearchPath(sp, gamePath, modPath, giPath);
-	if (!(fs instanceof NodeSystem) && globbyPath) return [globbyPath];
+async function parseGlobSearchPath(fs: ReadableFileSystem, sp: string, basePath: string|undefined, giPath: string): Promise<string[] | undefined> {
+	const globbyPath = parseSearchPath(sp, basePath, giPath);
 	if (!globbyPath) return undefined;
-	const matches = globSync(globbyPath, { absolute: true });
-	return matches;
+	// Like the engine, wildcards only mount folders and archives.
+	return expandGlob(fs, globbyPath, (name, type) => (type & FileType.Directory) !== 0 || /\.(vpk|gma)$/i.test(name));
 }
 
-/** A simple folder-specific filesystem that works within the provided filesystem. */
-export class FolderSystem implements ReadableFileSystem {
+/**
+ * A simple folder-specific filesystem that works within the provided filesystem.
+ * Paths are matched case-insensitively like the engine does, even when the host filesystem is case-sensitive.
+ * Writes only succeed if the underlying filesystem is writable.
+ */
+export class FolderSystem implements WritableFileSystem {
 	public readonly kind = 'dir';
 	public readonly fs: ReadableFileSystem;
 	public readonly root: string;
 
+	/** Errors thrown by the underlying filesystem, other than missing paths. */
+	diagnostics: Diagnostic[] = [];
+
+	/** Directory listings used for case-insensitive lookups, keyed by on-disk path and then by folded name. */
+	#listings = new Map<string, Map<string, string>|undefined>();
+
+	/**
+	 * Only present when the underlying filesystem reads ranges itself. Archives check for this method and
+	 * fall back to their own caches without it, so emulating it with full reads would bypass those.
+	 */
+	readFileRange?: (path: string, offset: number, length: number) => Promise<Uint8Array | undefined>;
+
 	constructor(fs: ReadableFileSystem, root: string) {
 		this.fs = fs;
 		this.root = root;
+
+		if (fs.readFileRange) {
+			this.readFileRange = (path, offset, length) => this.#withFallback(path, (full) => fs.readFileRange!(full, offset, length));
+		}
 	}
 
 	async validate() {
@@ -57,34 +95,184 @@ export class FolderSystem implements ReadableFileSystem {
 		return join(this.root, path);
 	}
 
-	async readFile(path: string): Promise<Uint8Array | undefined> {
+	/** Forgets cached directory listings. Call this if the folder contents change. */
+	clearCache() {
+		this.#listings.clear();
+	}
+
+	async #getListing(dir: string, refresh: boolean=false): Promise<Map<string, string>|undefined> {
+		if (!refresh && this.#listings.has(dir)) return this.#listings.get(dir);
+
+		let listing: Map<string, string>|undefined;
 		try {
-			return await this.fs.readFile(join(this.root, path));
+			const items = await this.fs.readDirectory(join(this.root, dir));
+			if (items) {
+				listing = new Map();
+				for (const [name] of items) {
+					const folded = name.toLowerCase();
+					if (!listing.has(folded)) listing.set(folded, name);
+				}
+			}
 		}
-		catch {
-			return undefined;
+		catch(e) {
+			this.#report(e, join(this.root, dir));
 		}
+
+		this.#listings.set(dir, listing);
+		return listing;
 	}
 
-	async readDirectory(path: string): Promise<[string, FileType][] | undefined> {
+	/** Walks the directory tree to find the on-disk casing of a normalized path. */
+	async #resolveCase(path: string): Promise<string|undefined> {
+		let current = '';
+		for (const part of path.split('/')) {
+			if (!part.length) continue;
+			const cached = this.#listings.has(current);
+			let actual = (await this.#getListing(current))?.get(part.toLowerCase());
+
+			// A cached listing may predate the entry, so a miss is only trusted once the folder has been listed again.
+			if (actual === undefined && cached) actual = (await this.#getListing(current, true))?.get(part.toLowerCase());
+			if (actual === undefined) return undefined;
+			current = current.length ? current + '/' + actual : actual;
+		}
+		return current;
+	}
+
+	/** Runs an action on the exact path first, then retries with the on-disk casing if that fails. */
+	async #withFallback<T>(path: string, action: (path: string) => Promise<T|undefined>): Promise<T|undefined> {
 		try {
-			const items = await this.fs.readDirectory(join(this.root, path));
-			if (items === undefined) return undefined;
-			return items;
+			const normal = normalizePath(path);
+			const result = await action(join(this.root, normal));
+			if (result !== undefined) return result;
+
+			const actual = await this.#resolveCase(normal);
+			if (actual === undefined || actual === normal) return undefined;
+			return await action(join(this.root, actual));
 		}
-		catch {
+		catch(e) {
+			this.#report(e, join(this.root, normalizePath(path)));
 			return undefined;
 		}
 	}
 
+	#report(error: unknown, path: string) {
+		if (!isNotFound(error)) addDiagnostic(this.diagnostics, toDiagnostic(error, 'read-failed', path));
+	}
+
+	/** Returns the path relative to the root with its on-disk casing, or undefined if it does not exist. */
+	async resolvePath(path: string): Promise<string|undefined> {
+		const normal = normalizePath(path);
+		try {
+			if (await this.fs.stat(join(this.root, normal))) return normal;
+		}
+		catch {}
+		return this.#resolveCase(normal);
+	}
+
+	async readFile(path: string): Promise<Uint8Array | undefined> {
+		return this.#withFallback(path, (full) => this.fs.readFile(full));
+	}
+
+
+	/** Streams a file through the underlying filesystem, falling back to range reads or a full read if it cannot stream. */
+	async readFileStream(path: string): Promise<ReadableStream<Uint8Array> | undefined> {
+		return this.#withFallback(path, async (full) => {
+			if (this.fs.readFileStream) return this.fs.readFileStream(full);
+
+			const stat = await this.fs.stat(full);
+			if (stat?.type !== FileType.File) return undefined;
+			if (this.fs.readFileRange) return rangeStream((offset, length) => this.fs.readFileRange!(full, offset, length), 0, stat.size);
+
+			const data = await this.fs.readFile(full);
+			return data && bytesStream(data);
+		});
+	}
+
+	async readDirectory(path: string): Promise<[string, FileType][] | undefined> {
+		return this.#withFallback(path, (full) => this.fs.readDirectory(full));
+	}
+
 	async stat(path: string): Promise<FileStat | undefined> {
+		return this.#withFallback(path, (full) => this.fs.stat(full));
+	}
+
+	/** Resolves a path that may not exist yet, reusing the on-disk casing of any existing parent directories. */
+	async #resolveForWrite(path: string): Promise<string> {
+		const normal = normalizePath(path);
+		const existing = await this.resolvePath(normal);
+		if (existing !== undefined) return existing;
+
+		const slash = normal.lastIndexOf('/');
+		if (slash === -1) return normal;
+		return join(await this.#resolveForWrite(normal.slice(0, slash)), normal.slice(slash + 1));
+	}
+
+	async #write(action: (fs: WritableFileSystem) => Promise<boolean>): Promise<boolean> {
+		if (!isWritable(this.fs)) return false;
 		try {
-			return await this.fs.stat(join(this.root, path));
+			return await action(this.fs);
 		}
 		catch {
-			return undefined;
+			return false;
+		}
+		finally {
+			this.clearCache();
 		}
 	}
+
+	async writeFile(path: string, data: Uint8Array): Promise<boolean> {
+		const target = await this.#resolveForWrite(path);
+		return this.#write(fs => fs.writeFile(join(this.root, target), data));
+	}
+
+	async delete(path: string, options?: { recursive?: boolean }): Promise<boolean> {
+		const target = await this.resolvePath(path);
+		if (target === undefined) return false;
+		return this.#write(fs => fs.delete(join(this.root, target), options));
+	}
+
+	async createDirectory(path: string): Promise<boolean> {
+		const target = await this.#resolveForWrite(path);
+		return this.#write(fs => fs.createDirectory(join(this.root, target)));
+	}
+
+	async rename(source: string, target: string, options?: { overwrite?: boolean }): Promise<boolean> {
+		const from = await this.resolvePath(source);
+		if (from === undefined) return false;
+		const to = await this.#resolveForWrite(target);
+		return this.#write(fs => fs.rename(join(this.root, from), join(this.root, to), options));
+	}
+}
+
+/** Tests a path against a search path that may contain `*` wildcards. */
+function matchesSearchPath(pattern: string, path: string): boolean {
+	return wildcardRegExp(trimSlash(pattern)).test(trimSlash(path));
+}
+
+function isInside(root: string, path: string): boolean {
+	const rel = relative(root, path);
+	return !rel.startsWith('..') && !rel.startsWith('/');
+}
+
+function trimSlash(path: string): string {
+	return path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * Finds the 1-based line of a `key value` entry in a KeyValues file, comparing keys case-insensitively.
+ * Returns undefined if there is no line with exactly that key and value.
+ */
+function findEntryLine(text: string|undefined, key: string, value?: string): number|undefined {
+	if (text === undefined) return undefined;
+
+	const lines = text.split('\n');
+	for (let i=0; i<lines.length; i++) {
+		const match = lines[i].match(/^\s*"?([^"\s{}]+)"?\s*(?:"([^"]*)"|([^\s"{}]+))?/);
+		if (!match || match[1].toLowerCase() !== key.toLowerCase()) continue;
+		if (value !== undefined && (match[2] ?? match[3]) !== value) continue;
+		return i + 1;
+	}
+	return undefined;
 }
 
 /** Shorthand function for parsing bytes as keyvalues */
@@ -100,83 +288,356 @@ async function readKV(fs: ReadableFileSystem, path: string): Promise<KeyVRoot |
 	}
 }
 
-/** Locates games within the user's Steam library. */
+/** Environment variable that overrides Steam install discovery. */
+export const STEAM_PATH_ENV = 'SFS_STEAM_PATH';
+
+/** AppState flag set once an app is fully installed. */
+const APP_STATE_FULLY_INSTALLED = 4;
+
+/** The parsed appmanifest of an installed app. */
+export interface InstalledApp {
+	appid: string;
+	name: string;
+	/** The absolute path of the app's install folder. */
+	path: string;
+	/** The library folder that holds the app. */
+	library: string;
+	buildid: string;
+	sizeOnDisk: number;
+	stateFlags: number;
+	/** True if the state flags mark the app as fully installed. */
+	installed: boolean;
+	/** Unix timestamp in milliseconds. */
+	lastUpdated: number;
+}
+
+/** A Steam Workshop item that is downloaded for an app. */
+export interface WorkshopItem {
+	id: string;
+	appid: string;
+	/** Size in bytes, as recorded by Steam. */
+	size: number;
+	/** Unix timestamp in milliseconds. */
+	timeUpdated: number;
+	/** The absolute path of the item's content folder. */
+	path: string;
+}
+
+/** A game or mod that GameSystem can be pointed at. */
+export interface GameCandidate {
+	/** The title from gameinfo. */
+	name: string;
+	/** The folder holding gameinfo, which is used as the GameSystem root. */
+	modroot: string;
+	engine: 'source1' | 'source2';
+	/** The installed app that ships this game. Undefined for sourcemods. */
+	appid?: string;
+	/** The SteamAppId from gameinfo, whose install the game's search paths resolve against. */
+	baseAppId?: string;
+	/** The installed app matching baseAppId, if it is installed. */
+	baseGame?: InstalledApp;
+	/** True if the game was found in a steamapps/sourcemods folder. */
+	sourcemod: boolean;
+}
+
+/** Reads the name and app id from the gameinfo in a folder, or returns undefined if there is none. */
+async function readGameInfo(fs: ReadableFileSystem, modroot: string): Promise<Pick<GameCandidate, 'name' | 'engine' | 'baseAppId'> | undefined> {
+	for (const [file, engine] of [['gameinfo.txt', 'source1'], ['gameinfo.gi', 'source2']] as const) {
+		const gameinfo = await readKV(fs, join(modroot, file));
+		const gi_main = gameinfo?.dir('GameInfo', null);
+		if (!gi_main) continue;
+
+		const gi_fs = gi_main.dir('FileSystem', null);
+		return {
+			name: (gi_main.pair('game', null) ?? gi_main.pair('title', null))?.string() ?? basename(trimSlash(modroot)),
+			engine,
+			baseAppId: (gi_fs?.pair('SteamAppId', null) ?? gi_main.pair('SteamAppId', null))?.string(),
+		};
+	}
+	return undefined;
+}
+
+/** Lists the subfolders of a folder, or nothing if it cannot be read. */
+async function listFolders(fs: ReadableFileSystem, path: string): Promise<string[]> {
+	try {
+		const items = await fs.readDirectory(path);
+		return (items ?? [])
+			.filter(x => x[1] === FileType.Directory)
+			.map(x => x[0])
+			.sort((a, b) => a.toLowerCase() < b.toLowerCase() ? -1 : 1);
+	}
+	catch {
+		return [];
+	}
+}
+
+/** Locates games within the user's Steam libraries. */
 export class SteamCache {
 	public fs: ReadableFileSystem;
+	/** The first Steam install that was found, or the only candidate if one was given. */
 	public root: string;
+	/** Every Steam install that was found. Libraries from all of them are merged. */
+	public roots: string[] = [];
+	public candidates: string[];
 
 	applibcache: Record<string, string> = {};
 	appdircache: Record<string, string|undefined> = {};
+	appcache: Record<string, InstalledApp|undefined> = {};
+	/** Stores the library list and appmanifests between runs. GameSystems created with an index cache also set this if it is unset. */
+	indexCache?: IndexCache;
 	public initialized: InitState = InitState.None;
+	#loader = new LazyLoader({
+		parse: (signal) => this.#parse(signal),
+		unparsed: () => this.initialized === InitState.None,
+		ready: () => this.initialized === InitState.Ready,
+	});
 	
 	static cachecache: Record<string, SteamCache> = {};
-	public static get(fs: ReadableFileSystem, root: string) {
+	public static get(fs: ReadableFileSystem, root: string|string[]) {
 		// If one with the same root already exists, we don't need to re-parse everything again.
-		if (root in this.cachecache && this.cachecache[root].fs === fs) return this.cachecache[root];
-		return this.cachecache[root] = new SteamCache(fs, root);
+		const key = typeof root === 'string' ? root : root.join('|');
+		if (key in this.cachecache && this.cachecache[key].fs === fs) return this.cachecache[key];
+		return this.cachecache[key] = new SteamCache(fs, root);
 	}
 
-	constructor(fs: ReadableFileSystem, root: string) {
+	/** @param root A Steam install folder, or a list of candidates to probe in order. */
+	constructor(fs: ReadableFileSystem, root: string|string[]) {
 		this.fs = fs;
-		this.root = root;
+		this.candidates = typeof root === 'string' ? [root] : root;
+		this.root = this.candidates[0] ?? '';
+	}
+
+	/** Reads the library folders on first use. Concurrent callers share the same parse. */
+	parse(): Promise<boolean> {
+		return this.#loader.validate();
 	}
 
-	async parse(): Promise<boolean> {
-		if (this.initialized) return this.initialized === InitState.Ready;
+	/** Forgets every library and app, and reads them again. A parse still in progress is aborted first. */
+	reload(): Promise<boolean> {
+		return this.#loader.reload();
+	}
+
+	async #parse(signal: AbortSignal): Promise<boolean> {
+		this.roots = [];
+		this.applibcache = {};
+		this.appdircache = {};
+		this.appcache = {};
 		this.initialized = InitState.Error;
 
-		// Get the list of libraries
-		const libfolders = await readKV(this.fs, join(this.root, 'steamapps/libraryfolders.vdf'));
-		if (!libfolders) return false;
+		const seen_libraries = new Set<string>();
+		for (const candidate of this.candidates) {
+			// Get the list of libraries
+			const libraries = await this.#readLibraries(candidate);
+			signal.throwIfAborted();
+			if (!libraries) continue;
 
-		const lf_root = libfolders.dir('libraryfolders');
-		for (const library of lf_root.all()) {
-			if (library instanceof KeyV) continue;
-			
-			const lib_path = library.pair('path').string().replaceAll('\\\\', '/');
-			const lib_apps = library.dir('apps').all().map(x => x.key);
-			console.log(`Resolving ${lib_apps.length} apps from library '${lib_path}'`);
-			
-			for (const app of lib_apps) {
-				this.applibcache[app] = lib_path;
+			// Candidates like ~/.steam/steam and ~/.local/share/Steam are often symlinks to one install, which lists the same libraries.
+			if (libraries.length && libraries.every(([lib_path]) => seen_libraries.has(lib_path))) continue;
+			this.roots.push(candidate);
+
+			for (const [lib_path, lib_apps] of libraries) {
+				if (seen_libraries.has(lib_path)) continue;
+				seen_libraries.add(lib_path);
+
+				console.log(`Resolving ${lib_apps.length} apps from library '${lib_path}'`);
+				
+				for (const app of lib_apps) {
+					this.applibcache[app] ??= lib_path;
+				}
 			}
 		}
 
+		if (!this.roots.length) return false;
+		this.root = this.roots[0];
 		this.initialized = InitState.Ready;
 		return true;
 	}
 
+	/** Reads the libraries of a Steam install and the apps in each, or returns undefined if it has no libraryfolders.vdf. */
+	async #readLibraries(root: string): Promise<[string, string[]][] | undefined> {
+		const vdf_path = join(root, 'steamapps/libraryfolders.vdf');
+		const key = 'steam-libraries:' + vdf_path;
+		const cached = await this.indexCache?.get<[string, string[]][]>(key, this.fs);
+		if (cached) return cached;
+
+		const stamp = this.indexCache ? await stampFile(this.fs, vdf_path) : undefined;
+		const libfolders = await readKV(this.fs, vdf_path);
+		if (!libfolders) return undefined;
+
+		const out: [string, string[]][] = [];
+		for (const library of libfolders.dir('libraryfolders').all()) {
+			if (library instanceof KeyV) continue;
+			out.push([library.pair('path').string().replaceAll('\\\\', '/'), library.dir('apps').all().map(x => x.key)]);
+		}
+
+		if (stamp) this.indexCache!.set(key, [stamp], out);
+		return out;
+	}
+
 	async parseGame(appid: string, force=false): Promise<string | undefined> {
 		const lib_path = this.applibcache[appid];
 		if (!lib_path) return undefined;
-		if (!force && appid in this.appdircache) return undefined;
-	
-		const appmanifest = await readKV(this.fs, join(lib_path, 'steamapps/appmanifest_'+appid+'.acf'));
+		if (!force && appid in this.appdircache) return this.appdircache[appid];
+
+		const manifest_path = join(lib_path, 'steamapps/appmanifest_'+appid+'.acf');
+		const cached = await this.indexCache?.get<InstalledApp>('appmanifest:' + manifest_path, this.fs);
+		if (cached) {
+			this.appdircache[appid] = cached.path;
+			this.appcache[appid] = cached;
+			return cached.path;
+		}
+
+		const stamp = this.indexCache ? await stampFile(this.fs, manifest_path) : undefined;
+		const appmanifest = await readKV(this.fs, manifest_path);
 		if (!appmanifest) return;
 		
 		try {
 			const app_root = appmanifest.dir('AppState');
 			const app_dir = app_root.pair('installdir').string();
-			this.appdircache[appid] = join(lib_path, 'steamapps/common', app_dir+'/');
+			const app_path = join(lib_path, 'steamapps/common', app_dir+'/');
+			const state_flags = app_root.pair('StateFlags', null)?.int(0) ?? 0;
+
+			this.appdircache[appid] = app_path;
+			this.appcache[appid] = {
+				appid,
+				name: app_root.pair('name', null)?.string() ?? app_dir,
+				path: app_path,
+				library: lib_path,
+				buildid: app_root.pair('buildid', null)?.string() ?? '',
+				sizeOnDisk: app_root.pair('SizeOnDisk', null)?.int(0) ?? 0,
+				stateFlags: state_flags,
+				installed: (state_flags & APP_STATE_FULLY_INSTALLED) !== 0,
+				lastUpdated: (app_root.pair('LastUpdated', null)?.int(0) ?? 0) * 1000,
+			};
+			if (stamp) this.indexCache!.set('appmanifest:' + manifest_path, [stamp], this.appcache[appid]);
 		}
 		catch(e) {
 			console.error('Failed to parse appmanifest for appid', appid, e);
 			this.appdircache[appid] = undefined;
+			this.appcache[appid] = undefined;
 		}
 
-		// Lots of info here, but we don't need most of it.
-		// const app_name = app_root.pair('name').string();
 		return this.appdircache[appid];
 	}
 
 	async findGame(appid: string): Promise<string | undefined> {
-		if (!this.initialized) await this.parse();
+		await this.parse();
 		if (!(appid in this.appdircache)) await this.parseGame(appid);
 		return this.appdircache[appid];
 	}
 
+	/** Returns the appmanifest details of an installed app. */
+	async getApp(appid: string): Promise<InstalledApp | undefined> {
+		await this.parse();
+		if (!(appid in this.appdircache)) await this.parseGame(appid);
+		return this.appcache[appid];
+	}
+
+	/** Returns the appmanifest details of every installed app. */
+	async getInstalledApps(): Promise<InstalledApp[]> {
+		const out: InstalledApp[] = [];
+		for (const appid of await this.getInstalled()) {
+			const app = await this.getApp(appid);
+			if (app) out.push(app);
+		}
+		return out;
+	}
+
+	/** Finds an installed app by name. Exact (case-insensitive) matches win over partial ones. */
+	async findGameByName(name: string): Promise<InstalledApp | undefined> {
+		const apps = await this.getInstalledApps();
+		const lower = name.toLowerCase();
+		return apps.find(x => x.name.toLowerCase() === lower)
+			?? apps.find(x => x.name.toLowerCase().includes(lower));
+	}
+
+	/** Returns the folder holding an app's downloaded workshop items, or undefined if the app is not installed. */
+	async getWorkshopFolder(appid: string): Promise<string | undefined> {
+		await this.parse();
+		const lib_path = this.applibcache[appid];
+		return lib_path ? join(lib_path, 'steamapps/workshop/content', appid) : undefined;
+	}
+
+	/**
+	 * Lists the workshop items downloaded for an app, sorted by id. Items come from the app's appworkshop manifest,
+	 * or from the workshop content folder if there is no manifest.
+	 */
+	async getWorkshopItems(appid: string): Promise<WorkshopItem[]> {
+		await this.parse();
+		const lib_path = this.applibcache[appid];
+		if (!lib_path) return [];
+
+		const content_dir = join(lib_path, 'steamapps/workshop/content', appid);
+		const out: WorkshopItem[] = [];
+
+		const manifest = await readKV(this.fs, join(lib_path, 'steamapps/workshop', `appworkshop_${appid}.acf`));
+		const installed = manifest?.dir('AppWorkshop', null)?.dir('WorkshopItemsInstalled', null);
+		if (installed) {
+			for (const item of installed.all()) {
+				if (item instanceof KeyV) continue;
+				out.push({
+					id: item.key,
+					appid,
+					size: item.pair('size', null)?.int(0) ?? 0,
+					timeUpdated: (item.pair('timeupdated', null)?.int(0) ?? 0) * 1000,
+					path: join(content_dir, item.key),
+				});
+			}
+		}
+		else {
+			let items: [string, FileType][] | undefined;
+			try {
+				items = await this.fs.readDirectory(content_dir);
+			}
+			catch {}
+
+			for (const [name, type] of items ?? []) {
+				if (type !== FileType.Directory || !/^\d+$/.test(name)) continue;
+				const stat = await this.fs.stat(join(content_dir, name)).catch(() => undefined);
+				out.push({ id: name, appid, size: 0, timeUpdated: stat?.mtime ?? 0, path: join(content_dir, name) });
+			}
+		}
+
+		return out.sort((a, b) => a.id.length - b.id.length || (a.id < b.id ? -1 : 1));
+	}
+
+	/**
+	 * Finds every game that can be opened with GameSystem: the top-level folders of installed apps that hold a gameinfo.txt
+	 * or gameinfo.gi (and the folders in `game/` for Source 2), followed by the mods in each Steam install's sourcemods folder.
+	 */
+	async findGames(): Promise<GameCandidate[]> {
+		const apps = await this.getInstalledApps();
+		const by_appid = new Map(apps.map(x => [x.appid, x]));
+		const out: GameCandidate[] = [];
+
+		const check = async (modroot: string, appid: string|undefined, sourcemod: boolean) => {
+			const info = await readGameInfo(this.fs, modroot);
+			if (!info) return;
+			const base_game = info.baseAppId ? by_appid.get(info.baseAppId) : undefined;
+			out.push({ ...info, modroot, appid, baseGame: base_game, sourcemod });
+		};
+
+		for (const app of apps) {
+			for (const folder of await listFolders(this.fs, app.path)) {
+				const modroot = join(app.path, folder);
+				await check(modroot, app.appid, false);
+
+				if (folder.toLowerCase() === 'game') {
+					for (const sub of await listFolders(this.fs, modroot)) await check(join(modroot, sub), app.appid, false);
+				}
+			}
+		}
+
+		for (const root of this.roots) {
+			const sourcemods = join(root, 'steamapps/sourcemods');
+			for (const folder of await listFolders(this.fs, sourcemods)) await check(join(sourcemods, folder), undefined, true);
+		}
+
+		return out;
+	}
+
 	async getInstalled(): Promise<string[]> {
-		if (!this.initialized) await this.parse();
+		await this.parse();
 		return Object.keys(this.applibcache);
 	}
 
@@ -192,19 +653,137 @@ export class SteamCache {
 	}
 }
 
-function findSteamCache(fs: ReadableFileSystem) {
-	let steam_path: string;
+/** Lists the folders where Steam is commonly installed on this platform, most likely first. */
+export function getSteamCandidates(): string[] {
+	const out: string[] = [];
+	const override = process.env[STEAM_PATH_ENV];
+	if (override) out.push(override.replaceAll('\\', '/'));
+
+	const home = process.env.HOME ?? '';
 	switch (platform()) {
 		case 'win32':
-			steam_path = 'C:/Program Files (x86)/Steam/';
+			out.push('C:/Program Files (x86)/Steam/', 'C:/Program Files/Steam/');
 			break;
 		case 'darwin':
-			steam_path = join(process.env.HOME!, '/Library/Application Support/Steam/');
+			out.push(join(home, '/Library/Application Support/Steam/'));
 			break;
 		default:
-			steam_path = join(process.env.HOME!, '/.steam/steam/');
+			out.push(
+				join(home, '/.steam/steam/'),
+				join(home, '/.steam/root/'),
+				join(home, '/.local/share/Steam/'),
+				join(home, '/.var/app/com.valvesoftware.Steam/.local/share/Steam/'),
+				join(home, '/.var/app/com.valvesoftware.Steam/data/Steam/'),
+				join(home, '/snap/steam/common/.local/share/Steam/'),
+				join(home, '/snap/steam/common/.steam/steam/'),
+			);
 	}
-	return SteamCache.get(fs, steam_path);
+	return out;
+}
+
+export function findSteamCache(fs: ReadableFileSystem) {
+	return SteamCache.get(fs, getSteamCandidates());
+}
+
+export type GameProvider = VpkSystem | FolderSystem | ZipSystem | GmaSystem | MemorySystem;
+
+/** Search order used when archives are preferred. Overlays and a mounted map always stay on top, like in the engine. */
+function providerRank(system: GameProvider): number {
+	switch (system.kind) {
+		case 'memory':
+		case 'bsp': return 0;
+		case 'vpk':
+		case 'gma': return 1;
+		default:    return 2;
+	}
+}
+
+/** A provider that contains a given path. */
+export interface ProviderMatch {
+	provider: GameProvider;
+	qualifiers: string[];
+	kind: GameProvider['kind'];
+	/** The full path of the file as reported by the provider's getPath(). */
+	path: string;
+	/** The archive chunk holding the file, for VPKs. */
+	archiveIndex?: number;
+	/** Where the file's data starts within its archive chunk, for VPKs. */
+	offset?: number;
+	size: number;
+}
+
+export interface GameFileEntry {
+	/** The path relative to the game, as cased by the winning provider. */
+	path: string;
+	/** The match that the game will actually load. */
+	winner: ProviderMatch;
+}
+
+export interface FindOptions {
+	/** Only search providers with this path ID. */
+	qualifier?: string;
+	/** Only search these kinds of providers. */
+	kinds?: GameProvider['kind'][];
+	/** Stop after this many results. */
+	limit?: number;
+}
+
+export interface FindResult {
+	/** The path relative to the game, as cased by the provider. */
+	path: string;
+	/** The highest priority provider holding the path. */
+	provider: GameProvider;
+}
+
+export interface OverrideEntry {
+	/** The path relative to the game, as cased by the winning provider. */
+	path: string;
+	/** The match that the game will actually load. */
+	winner: ProviderMatch;
+	/** Lower priority copies that are hidden by the winner. */
+	shadowed: ProviderMatch[];
+}
+
+export interface GameChangeEvent {
+	/**
+	 * `reload`: the game was re-parsed and providers may have been added or removed.
+	 * `provider`: an archive changed on disk and was re-indexed.
+	 * `file`: a file changed inside a mounted folder. The path is relative to the game.
+	 */
+	kind: 'reload' | 'provider' | 'file';
+	provider?: GameProvider;
+	added?: GameProvider[];
+	removed?: GameProvider[];
+	path?: string;
+	type?: FileChangeType;
+}
+
+export interface GameSystemOptions {
+	/** The cache used by mounted VPKs. Pass an ArchiveCache to share one byte budget between every VPK in the game, or false to disable caching. Defaults to a private cache per VPK. */
+	cache?: boolean|ArchiveCache;
+	/** Mounts `game_lv` search paths as game paths, like the engine does when low violence is enabled. */
+	lowViolence?: boolean;
+	/** Mounts the app's downloaded Steam Workshop items below every other search path. */
+	workshop?: boolean;
+	/**
+	 * Stores the resolved search paths, VPK trees and Steam app manifests between runs, so that unchanged games start without
+	 * re-parsing them. Also used by the SteamCache if it has none. Call IndexCache.save() to write it out.
+	 */
+	indexCache?: IndexCache;
+}
+
+/** The resolved search paths of a game as stored in an IndexCache. */
+interface GameIndexData {
+	name: string;
+	appid?: string;
+	gameroot?: string;
+	engine?: 'source1' | 'source2';
+	addonRoots: string[];
+	mountPatterns: string[];
+	/** Each provider's path IDs, kind, path and the config entry that mounted it. Providers with the same kind and path are shared. */
+	providers: [string[], GameProvider['kind'], string, DiagnosticOrigin?][];
+	/** Diagnostics from resolving the search paths, without their causes. */
+	diagnostics: Diagnostic[];
 }
 
 /** Represents a game filesystem. This filesystem exists in the context of the drive root. */
@@ -217,27 +796,242 @@ export class GameSystem implements ReadableFileSystem {
 	public initialized: InitState = InitState.None;
 
 	steam: SteamCache;
+	cache: boolean|ArchiveCache;
+	lowViolence: boolean;
+	workshop: boolean;
+	indexCache?: IndexCache;
+	/** Games mounted from cfg/mount.cfg. Empty when the search paths were restored from the index cache. */
 	mounts: GameSystem[] = [];
-	providers: [string[], VpkSystem | FolderSystem][] = [];
-	_providersSorted: [string[], VpkSystem | FolderSystem][] = [];
-
-	constructor(fs: ReadableFileSystem, root: string, steam?: SteamCache) {
+	providers: [string[], GameProvider][] = [];
+	_providersSorted: [string[], GameProvider][] = [];
+	map?: BspPakSystem;
+	/** Which gameinfo format the game was parsed from. */
+	engine?: 'source1' | 'source2';
+	/** Source 2 folders holding addons that can be mounted with mountAddon(). */
+	addonRoots: string[] = [];
+	/** Source 2 addons mounted with mountAddon(), by name. */
+	addons: Map<string, GameProvider[]> = new Map();
+	/** Providers mounted with mountOverlay(), which are searched before everything else. */
+	overlays: [string[], GameProvider][] = [];
+	/** Problems found while parsing the game and mounting its search paths. Cleared whenever the game is parsed again. */
+	diagnostics: Diagnostic[] = [];
+
+	/** The config entry that mounted each provider, for diagnostics. */
+	#origins = new Map<GameProvider, DiagnosticOrigin>();
+	/** Raw text of the config files read during the last parse, keyed by path relative to the mod root. */
+	#configText = new Map<string, string>();
+
+	/** The result of the latest reload(), which resolves once no newer reload is pending. */
+	#loading?: Promise<boolean>;
+	/** The chain of parse runs. Each run waits for the previous one to finish or abort. */
+	#running?: Promise<void>;
+	#abort?: AbortController;
+	/** The signal of the run in progress. Parse steps check it so that a superseded run stops early. */
+	#signal?: AbortSignal;
+
+	/** Reads made while resolving search paths. Goes through trackStamps() when there is an index cache. */
+	#resolver: ReadableFileSystem;
+	/** Stamps of every file and folder that the last parse depended on. */
+	#stamps = new Map<string, IndexStamp>();
+
+	/** Every path that the search paths could mount, used to decide whether a new file or folder requires a reload. */
+	#mountPatterns: string[] = [];
+	#listeners = new Set<(event: GameChangeEvent) => void>();
+	#watchers = new Map<string, Disposable>();
+	#pending?: { reload: boolean, providers: Set<Exclude<GameProvider, FolderSystem | MemorySystem>>, files: Map<string, GameChangeEvent> };
+	#timer?: ReturnType<typeof setTimeout>;
+
+	constructor(fs: ReadableFileSystem, root: string, steam?: SteamCache, options: GameSystemOptions={}) {
 		this.fs = fs;
 		this.modroot = root;
 		this.steam = steam ?? findSteamCache(fs);
+		this.cache = options.cache ?? true;
+		this.lowViolence = options.lowViolence ?? false;
+		this.workshop = options.workshop ?? false;
+		this.indexCache = options.indexCache;
+		if (this.indexCache) this.steam.indexCache ??= this.indexCache;
+		this.#resolver = fs;
+	}
+
+	#createVpk(path: string): VpkSystem {
+		const vpk = new VpkSystem(this.fs, path, this.cache);
+		vpk.indexCache = this.indexCache;
+		return vpk;
+	}
+
+	#createProvider(kind: GameProvider['kind'], path: string): GameProvider|undefined {
+		switch (kind) {
+			case 'vpk': return this.#createVpk(path);
+			case 'gma': return new GmaSystem(this.fs, path);
+			case 'zip': return new ZipSystem(this.fs, path);
+			case 'dir': return new FolderSystem(this.fs, path);
+		}
+		return undefined;
+	}
+
+	get #indexKey(): string {
+		return 'game:' + this.modroot + (this.lowViolence ? '|lv' : '') + (this.workshop ? '|workshop' : '');
+	}
+
+	/** Restores the search paths from the index cache. Returns false if there is no entry or one of its files changed. */
+	async #restoreIndex(): Promise<boolean> {
+		const key = this.#indexKey;
+		const data = await this.indexCache!.get<GameIndexData>(key, this.fs);
+		if (!data) return false;
+
+		const systems = new Map<string, GameProvider>();
+		for (const [qualifiers, kind, path, origin] of data.providers) {
+			let system = systems.get(kind + ':' + path);
+			if (!system) {
+				system = this.#createProvider(kind, path);
+				if (!system) return false;
+				systems.set(kind + ':' + path, system);
+			}
+			if (origin && !this.#origins.has(system)) this.#origins.set(system, origin);
+			this.providers.push([qualifiers, system]);
+		}
+
+		this.name = data.name;
+		this.appid = data.appid;
+		this.gameroot = data.gameroot;
+		this.engine = data.engine;
+		this.addonRoots = data.addonRoots;
+		this.#mountPatterns = data.mountPatterns;
+		this.diagnostics = data.diagnostics;
+		this.#stamps = new Map(this.indexCache!.getStamps(key)!.map(x => [x[0], x]));
+		return true;
+	}
+
+	async #storeIndex() {
+		// Installing or moving an app rewrites libraryfolders.vdf, which may change where search paths resolve.
+		for (const root of this.steam.roots) await this.#resolver.stat(join(root, 'steamapps/libraryfolders.vdf'));
+
+		const data: GameIndexData = {
+			name: this.name,
+			appid: this.appid,
+			gameroot: this.gameroot,
+			engine: this.engine,
+			addonRoots: this.addonRoots,
+			mountPatterns: this.#mountPatterns,
+			providers: this.providers.map(([qualifiers, system]) => [qualifiers, system.kind, system.getPath(''), this.#origins.get(system)]),
+			diagnostics: this.diagnostics.map(({ cause, ...rest }) => rest),
+		};
+		this.indexCache!.set(this.#indexKey, [...this.#stamps.values()], data);
+	}
+
+	/** Reads a KeyValues config relative to the mod root, keeping its text so that diagnostics can point to lines. */
+	async #readConfig(file: string): Promise<KeyVRoot|undefined> {
+		const bytes = await this.#resolver.readFile(join(this.modroot, file)).catch(() => undefined);
+		if (!bytes) return undefined;
+
+		const text = new TextDecoder().decode(bytes);
+		this.#configText.set(file, text);
+		try {
+			return parseStringKV(text, { escapes: false, multilines: false, types: false });
+		}
+		catch(e) {
+			throw new GameInfoError(`Failed to parse '${file}'`, { path: join(this.modroot, file), cause: e });
+		}
 	}
 
-	async parse(): Promise<boolean> {
+	#origin(file: string, key: string, value?: string): DiagnosticOrigin {
+		return { file, key, value, line: findEntryLine(this.#configText.get(file), key, value) };
+	}
+
+	#report(diagnostic: Diagnostic) {
+		addDiagnostic(this.diagnostics, diagnostic);
+	}
+
+	/** Parses the game on first use. Concurrent callers share the same parse. */
+	async validate(): Promise<boolean> {
+		if (this.initialized === InitState.None && !this.#loading) this.reload();
+		if (this.#loading) return this.#loading;
+		return this.initialized === InitState.Ready;
+	}
+
+	/** Same as reload(). */
+	parse(): Promise<boolean> {
+		return this.reload();
+	}
+
+	/**
+	 * Rebuilds the game from scratch, keeping any mounted map, addons and overlays.
+	 * A parse that is still running is aborted, and anyone waiting on it gets the result of this one instead.
+	 */
+	reload(): Promise<boolean> {
+		this.#abort?.abort();
+		const controller = this.#abort = new AbortController();
+
+		// Runs are chained, so a superseded parse always unwinds before the next one touches the providers.
+		const previous = this.#running;
+		const running = this.#running = (async () => {
+			await previous;
+			if (!controller.signal.aborted) await this.#load(controller.signal);
+		})();
+
+		return this.#loading = running.then(() => this.#abort === controller ? this.initialized === InitState.Ready : this.#loading!);
+	}
+
+	async #load(signal: AbortSignal) {
+		this.#signal = signal;
+		this.providers = [];
+		this.mounts = [];
+		this.initialized = InitState.None;
+
+		let parsed = false;
+		try {
+			parsed = await this.#parse();
+		}
+		catch(e) {
+			if (signal.aborted) return;
+			this.#report(toDiagnostic(e, 'gameinfo-invalid', this.modroot));
+			this.initialized = InitState.Error;
+		}
+		if (signal.aborted) return;
+
+		// An overlay or map mounted while this was running may already be in the list.
+		this.providers = this.providers.filter(x => x[1] !== this.map && !this.overlays.some(y => y[1] === x[1]));
+		if (this.map) this.providers.unshift([['game', 'bsp'], this.map]);
+		this.providers.unshift(...this.overlays);
+
+		// Addons go right below the overlays and map, so they have to be back in the list first.
+		if (parsed) {
+			for (const name of [...this.addons.keys()]) {
+				if (!await this.#mountAddon(name)) this.addons.delete(name);
+				if (signal.aborted) return;
+			}
+		}
+		this.#sortProviders();
+	}
+
+	async #parse(): Promise<boolean> {
 		//
 		// TODO: The names used all over this method SUCK ASS. Rewrite this thing!
 		//
 
 		this.initialized = InitState.Error;
-
-		// Read & parse gameinfo
-		const gameinfo = await readKV(this.fs, join(this.modroot, 'gameinfo.txt'));
-		if (!gameinfo) return false;
-		const gi_root = gameinfo.dir('GameInfo').dir('FileSystem');
+		this.#mountPatterns = [];
+		this.addonRoots = [];
+		this.diagnostics = [];
+		this.#origins.clear();
+		this.#configText.clear();
+		this.#stamps = new Map();
+		this.#resolver = this.indexCache ? trackStamps(this.fs, this.#stamps) : this.fs;
+		if (this.indexCache && await this.#restoreIndex()) return this.#finishParse();
+
+		// Read & parse gameinfo, falling back to the Source 2 format
+		const gameinfo = await this.#readConfig('gameinfo.txt');
+		if (!gameinfo) {
+			const gameinfo_gi = await this.#readConfig('gameinfo.gi');
+			if (!gameinfo_gi) {
+				this.#report({ severity: 'error', code: 'gameinfo-missing', message: 'Found no gameinfo.txt or gameinfo.gi in the mod root', path: this.modroot });
+				return false;
+			}
+			return this.#parseSource2(gameinfo_gi);
+		}
+		this.engine = 'source1';
+		const gi_root = gameinfo.dir('GameInfo', null)?.dir('FileSystem', null);
+		if (!gi_root) throw new GameInfoError("gameinfo.txt has no 'GameInfo' > 'FileSystem' block", { path: join(this.modroot, 'gameinfo.txt') });
 		const gi_appid = gi_root.pair('SteamAppId').string();
 		const gi_paths = gi_root.dir('SearchPaths');
 
@@ -249,20 +1043,28 @@ export class GameSystem implements ReadableFileSystem {
 		const dir_gi = this.modroot;
 		const dir_cwd = normalize(join(dir_gi, '../'));
 		const dir_game = this.gameroot = await this.steam.findGame(gi_appid);
+		const dir_base = dir_game ?? dir_cwd;
+		if (!dir_game) this.#report({
+			severity: 'warning',
+			code: 'appid-unresolved',
+			message: `App ${gi_appid} is not installed. Search paths resolve against '${dir_cwd}' instead.`,
+			origin: this.#origin('gameinfo.txt', 'SteamAppId', gi_appid),
+		});
 
-		// Read Strata game mounts if present
-		let mounts: KeyVChild[] = [];
+		// Read Strata game mounts if present, remembering which file each came from
+		let mounts: [KeyVChild, string][] = [];
 
 		// ... from gameinfo
 		const gi_mounts = gi_root.parent!.dir('mount', null);
-		if (gi_mounts) mounts = gi_mounts.all();
+		if (gi_mounts) mounts = gi_mounts.all().map(x => [x, 'gameinfo.txt']);
 
 		// ... from config
-		const cfg_mounts = await readKV(this.fs, join(this.modroot, 'cfg', 'mounts.kv'));
-		if (cfg_mounts) mounts = mounts.concat(cfg_mounts.all());
+		const cfg_mounts = await this.#readConfig('cfg/mounts.kv');
+		if (cfg_mounts) mounts = mounts.concat(cfg_mounts.all().map(x => [x, 'cfg/mounts.kv']));
 
 		// Parse collected mounts
-		for (const mount of mounts) {
+		for (const [mount, mount_file] of mounts) {
+			this.#signal?.throwIfAborted();
 			if (mount instanceof KeyV)
 				continue;
 			if (mount.pair('enabled', null)?.bool() === false)
@@ -271,7 +1073,7 @@ export class GameSystem implements ReadableFileSystem {
 			// Find app root
 			const dir_mount_root = await this.steam.findGame(mount.key);
 			if (!dir_mount_root) {
-				console.error('Failed to mount game', mount.key);
+				this.#report({ severity: 'error', code: 'mount-failed', message: `App ${mount.key} is not installed, so it cannot be mounted`, origin: this.#origin(mount_file, mount.key) });
 				continue;
 			}
 
@@ -284,21 +1086,27 @@ export class GameSystem implements ReadableFileSystem {
 					switch (mount_item.key) {
 						case 'vpk': {
 							let vpk_path = join(dir_mount_root, mount_folder.key, mount_item.string());
-							if (await this.fs.stat(vpk_path + '.vpk'))
+							if (await this.#resolver.stat(vpk_path + '.vpk'))
 								vpk_path += '.vpk';
 							else
 								vpk_path += '_dir.vpk';
 
-							this.providers.push([['game'], new VpkSystem(this.fs, vpk_path)]);
+							const vpk = this.#createVpk(vpk_path);
+							this.#mountPatterns.push(vpk_path);
+							this.#origins.set(vpk, this.#origin(mount_file, mount_item.key, mount_item.string()));
+							this.providers.push([['game'], vpk]);
 							break;
 						}
 						case 'dir': {
 							const folder_path = join(dir_mount_root, mount_folder.key, mount_item.string());
-							this.providers.push([['game'], new FolderSystem(this.fs, folder_path)]);
+							const folder = new FolderSystem(this.fs, folder_path);
+							this.#mountPatterns.push(folder_path);
+							this.#origins.set(folder, this.#origin(mount_file, mount_item.key, mount_item.string()));
+							this.providers.push([['game'], folder]);
 							break;
 						}
 						default: {
-							console.error(`Unrecognized mount type "${mount_item.key}"`);
+							this.#report({ severity: 'warning', code: 'mount-unknown-type', message: `Unrecognized mount type '${mount_item.key}'`, origin: this.#origin(mount_file, mount_item.key, mount_item.string()) });
 						}
 					}
 
@@ -307,56 +1115,595 @@ export class GameSystem implements ReadableFileSystem {
 		}
 
 		// Parse paths
+		let has_platform = false;
 		for (const path of gi_paths.all()) {
 			if (!(path instanceof KeyV)) continue;
 
-			let rawPath = path.string();
-			if (rawPath.endsWith('.vpk'))
-				rawPath = rawPath.slice(0, -4) + '_dir.vpk';
+			// Game+Mod, GameBin, etc
+			let qualifiers = path.key.toLowerCase().split('+').map(x => x.trim());
+			if (qualifiers.includes('game_lv')) {
+				if (!this.lowViolence) continue;
+				qualifiers = qualifiers.map(x => x === 'game_lv' ? 'game' : x);
+			}
+			if (qualifiers.includes('platform')) has_platform = true;
+
+			const rawPath = path.string();
+			const pattern = parseSearchPath(rawPath, dir_base, dir_gi);
+			if (pattern) this.#mountPatterns.push(pattern.endsWith('.vpk') ? pattern.slice(0, -4) + '_dir.vpk' : pattern);
 
-			const parsed = parseGlobSearchPath(this.fs, rawPath, dir_game, dir_cwd, dir_gi);
+			const origin = this.#origin('gameinfo.txt', path.key, rawPath);
+			const parsed = await parseGlobSearchPath(this.#resolver, rawPath, dir_base, dir_gi);
 			if (!parsed) {
-				console.warn('Path', "'"+path.string()+"'", 'could not be resolved. Could not locate game install!');
+				this.#report({ severity: 'warning', code: 'search-path-unresolved', message: `Search path '${rawPath}' could not be resolved`, origin });
 				continue;
 			}
 
 			console.log('Found', parsed.length, 'items from path', rawPath);
 
-			for (let parsedPath of parsed) {
-				// Game+Mod, GameBin, etc
-				const qualifiers = path.key.toLowerCase().split('+').map(x => x.trim());
+			for (const parsedPath of parsed) {
+				await this.#addSearchPath(qualifiers, parsedPath, origin);
+			}
+		}
+
+		// The engine always mounts the platform folder, even when gameinfo does not list it.
+		if (!has_platform) await this.#addSearchPath(['platform'], join(dir_base, 'platform'));
+
+		// Garry's Mod addons and extra games, mounted below the regular search paths like the game does.
+		// Other games have no such mounts, and their servers keep plugins like SourceMod in addons/.
+		if (this.appid === GMOD_APPID) {
+			await this.#mountAddons();
+			await this.#mountConfigGames();
+		}
+		if (this.workshop) await this.#mountWorkshop();
+
+		if (this.indexCache) await this.#storeIndex();
+		return this.#finishParse();
+	}
+
+	/**
+	 * Builds the provider list from a Source 2 gameinfo.gi. Locations are relative to the folder above the mod
+	 * (usually `game/`), and every folder gets its pak01_dir.vpk mounted like in Source 1.
+	 */
+	async #parseSource2(gameinfo: KeyVRoot): Promise<boolean> {
+		this.engine = 'source2';
+
+		const gi_main = gameinfo.dir('GameInfo', null);
+		const gi_root = gi_main?.dir('FileSystem', null);
+		const gi_paths = gi_root?.dir('SearchPaths', null);
+		if (!gi_main || !gi_root || !gi_paths) throw new GameInfoError("gameinfo.gi has no 'GameInfo' > 'FileSystem' > 'SearchPaths' block", { path: join(this.modroot, 'gameinfo.gi') });
+
+		this.name = (gi_main.pair('game', null) ?? gi_main.pair('title', null))?.string() ?? '';
+		this.appid = (gi_root.pair('SteamAppId', null) ?? gi_main.pair('SteamAppId', null))?.string();
 
-				if (parsedPath.endsWith('.vpk'))
-					this.providers.push([qualifiers, new VpkSystem(this.fs, parsedPath)]);
-				else
-					this.providers.push([qualifiers, new FolderSystem(this.fs, parsedPath)]);
+		const dir_gi = this.modroot;
+		const dir_base = normalize(join(dir_gi, '../'));
+		if (this.appid) this.gameroot = await this.steam.findGame(this.appid);
+
+		const writes: string[] = [];
+		for (const path of gi_paths.all()) {
+			if (!(path instanceof KeyV)) continue;
+
+			const origin = this.#origin('gameinfo.gi', path.key, path.string());
+			const location = parseSearchPath(path.string(), dir_base, dir_gi);
+			if (!location) continue;
+			this.#mountPatterns.push(location);
+
+			switch (path.key.toLowerCase()) {
+				case 'game':
+					await this.#addSearchPath(['game'], location, origin);
+					break;
+				case 'mod':
+					await this.#addSearchPath(['mod'], location, origin);
+					break;
+				case 'layeredonmod':
+					await this.#addSearchPath(['game', 'mod'], location, origin);
+					break;
+				case 'game_lowviolence':
+					if (this.lowViolence) await this.#addSearchPath(['game'], location, origin);
+					break;
+				case 'write':
+					writes.push(location);
+					break;
+				case 'addonroot':
+				case 'officialaddonroot':
+					this.addonRoots.push(location);
+					break;
+				default:
+					await this.#addSearchPath(path.key.toLowerCase().split('+').map(x => x.trim()), location, origin);
 			}
+		}
 
+		// Write paths only mark where files go, so they don't affect the search order.
+		for (const location of writes) {
+			this.#pushSearchPath(['default_write_path'], location, () => new FolderSystem(this.fs, location));
 		}
 
+		if (this.workshop) await this.#mountWorkshop();
+		if (this.indexCache) await this.#storeIndex();
+		return this.#finishParse();
+	}
+
+	/** Filters out providers that failed to load and marks the game as ready. */
+	async #finishParse(): Promise<boolean> {
 		// TODO: This isn't totally necessary, since failed sources skip themselves. We do want to run the validation on all of them though.
 		// Filter down providers to the ones that actually work
-		const working: [string[], VpkSystem|FolderSystem][] = [];
+		const working: [string[], GameProvider][] = [];
 		for (const provider of this.providers) {
-			if (await provider[1].validate()) working.push(provider);
-			else console.warn('Source', "'"+provider[1].getPath('')+"'", 'failed validation. This may mean that it is missing or corrupted!');
+			this.#signal?.throwIfAborted();
+			if (await provider[1].validate()) {
+				working.push(provider);
+				continue;
+			}
+
+			const system = provider[1];
+			this.#report({
+				severity: 'warning',
+				code: 'provider-invalid',
+				message: `'${system.getPath('')}' is missing or corrupted`,
+				path: system.getPath(''),
+				origin: this.#origins.get(system),
+				cause: system instanceof VpkSystem ? system.diagnostics[0] : undefined,
+			});
 		}
 
 		this.providers = working;
-		this._providersSorted = working.toSorted((a, b) => +(b[1].kind === 'vpk') - +(a[1].kind === 'vpk'));
+		this.#sortProviders();
 		this.initialized = InitState.Ready;
 		return true;
 	}
 
-	async validate() {
+	/**
+	 * Adds a provider for a resolved search path location, following the engine's rules:
+	 * - `name.vpk` locations mount `name_dir.vpk`, or `name.vpk` if it is a single-file archive.
+	 * - Folders first mount `pak01_dir.vpk` inside them and `<folder>_dir.vpk` next to them, if present.
+	 * - A location that is already mounted only gains the path IDs it did not have yet.
+	 */
+	async #addSearchPath(qualifiers: string[], location: string, origin?: DiagnosticOrigin) {
+		this.#signal?.throwIfAborted();
+		const lower = location.toLowerCase();
+
+		// Wildcards also match the numbered chunks of multi-chunk archives.
+		if (ARCHIVE_CHUNK.test(lower)) return;
+
+		if (lower.endsWith('.vpk')) {
+			let vpk_path = location;
+			if (!lower.endsWith('_dir.vpk')) {
+				const dir_path = location.slice(0, -4) + '_dir.vpk';
+				if (await this.#resolver.stat(dir_path) || !await this.#resolver.stat(location)) vpk_path = dir_path;
+			}
+			this.#pushSearchPath(qualifiers, vpk_path, () => this.#createVpk(vpk_path), origin);
+			return;
+		}
+
+		if (lower.endsWith('.gma')) {
+			this.#pushSearchPath(qualifiers, location, () => new GmaSystem(this.fs, location), origin);
+			return;
+		}
+
+		// Binary search paths don't hold content.
+		if (qualifiers.some(x => x !== 'gamebin' && x !== 'executable_path')) {
+			for (const vpk_path of [join(location, AUTO_VPK), trimSlash(location) + '_dir.vpk']) {
+				this.#mountPatterns.push(vpk_path);
+				if (await this.#resolver.stat(vpk_path))
+					this.#pushSearchPath(qualifiers, vpk_path, () => this.#createVpk(vpk_path), origin);
+			}
+		}
+
+		this.#pushSearchPath(qualifiers, location, () => new FolderSystem(this.fs, location), origin);
+	}
+
+	#pushSearchPath(qualifiers: string[], location: string, create: () => GameProvider, origin?: DiagnosticOrigin) {
+		const key = trimSlash(normalize(location));
+		const existing = this.providers.filter(x => trimSlash(x[1].getPath('')) === key);
+		const taken = new Set(existing.flatMap(x => x[0]));
+		const remaining = qualifiers.filter(x => !taken.has(x));
+		if (!remaining.length) return;
+
+		// Share the provider between entries so that archives are only indexed once.
+		const system = existing[0]?.[1] ?? create();
+		if (origin && !this.#origins.has(system)) this.#origins.set(system, origin);
+		this.providers.push([remaining, system]);
+	}
+
+	/** Mounts legacy addon folders and then .gma archives from the mod's addons/ folder, skipping anything the search paths already mounted. */
+	async #mountAddons() {
+		const addons_dir = join(this.modroot, 'addons');
+		this.#mountPatterns.push(join(addons_dir, '*'));
+		let items: [string, FileType][] | undefined;
 		try {
-			if (!this.initialized) await this.parse();
-			return this.initialized === InitState.Ready;
+			items = await this.#resolver.readDirectory(addons_dir);
 		}
-		catch(e) {
-			console.error(e);
-			return false;
+		catch {}
+		if (!items) return;
+
+		const mounted = new Set(this.providers.map(x => trimSlash(x[1].getPath(''))));
+		const sorted = items.toSorted((a, b) => a[0].toLowerCase() < b[0].toLowerCase() ? -1 : 1);
+
+		for (const [name, type] of sorted) {
+			const path = join(addons_dir, name);
+			if (type === FileType.Directory && !mounted.has(trimSlash(path)))
+				this.providers.push([['game'], new FolderSystem(this.fs, path)]);
+		}
+
+		for (const [name, type] of sorted) {
+			const path = join(addons_dir, name);
+			if (type === FileType.File && name.toLowerCase().endsWith('.gma') && !mounted.has(trimSlash(path)))
+				this.providers.push([['game'], new GmaSystem(this.fs, path)]);
+		}
+	}
+
+	/** Mounts the games listed in Garry's Mod's cfg/mount.cfg. Only their game search paths are used. */
+	async #mountConfigGames() {
+		const mount_cfg = await this.#readConfig('cfg/mount.cfg');
+		const mount_root = mount_cfg?.dir('mountcfg', null);
+		if (!mount_root) return;
+
+		for (const entry of mount_root.all()) {
+			this.#signal?.throwIfAborted();
+			if (!(entry instanceof KeyV)) continue;
+
+			const game_path = entry.string().replaceAll('\\', '/');
+			const game = new GameSystem(this.fs, game_path, this.steam, { cache: this.cache, indexCache: this.indexCache });
+			const valid = await game.validate();
+
+			// A cached parse of this game is only valid while the mounted game is unchanged too.
+			for (const [path, stamp] of game.#stamps) {
+				if (!this.#stamps.has(path)) this.#stamps.set(path, stamp);
+			}
+
+			if (!valid) {
+				this.#report({
+					severity: 'error',
+					code: 'mount-failed',
+					message: `Failed to mount '${entry.key}' from '${game_path}'`,
+					path: game_path,
+					origin: this.#origin('cfg/mount.cfg', entry.key, entry.string()),
+					cause: game.diagnostics[0],
+				});
+				continue;
+			}
+
+			this.mounts.push(game);
+			for (const [qualifiers, system] of game.providers) {
+				if (qualifiers.includes('game')) this.providers.push([['game'], system]);
+			}
+		}
+	}
+
+	/**
+	 * Mounts the downloaded workshop items of the game's app. Each item mounts its VPKs and GMAs,
+	 * then its folder for loose content. Items are mounted in id order, so older items win.
+	 */
+	async #mountWorkshop() {
+		if (!this.appid) return;
+
+		// Downloading or removing an item changes the content folder, which invalidates a cached parse.
+		const folder = await this.steam.getWorkshopFolder(this.appid);
+		if (folder) await this.#resolver.stat(folder);
+
+		for (const item of await this.steam.getWorkshopItems(this.appid)) {
+			this.#signal?.throwIfAborted();
+			this.#mountPatterns.push(join(item.path, '*'));
+			let entries: [string, FileType][] | undefined;
+			try {
+				entries = await this.#resolver.readDirectory(item.path);
+			}
+			catch {}
+			if (!entries) continue;
+
+			const files = entries
+				.filter(x => x[1] === FileType.File)
+				.map(x => x[0])
+				.sort((a, b) => a.toLowerCase() < b.toLowerCase() ? -1 : 1);
+
+			for (const name of files) {
+				const lower = name.toLowerCase();
+				const path = join(item.path, name);
+				if (lower.endsWith('.gma'))
+					this.#pushSearchPath(['game', 'workshop'], path, () => new GmaSystem(this.fs, path));
+				else if (lower.endsWith('.vpk') && !ARCHIVE_CHUNK.test(lower))
+					this.#pushSearchPath(['game', 'workshop'], path, () => this.#createVpk(path));
+			}
+
+			if (entries.some(x => x[1] === FileType.Directory))
+				this.#pushSearchPath(['game', 'workshop'], item.path, () => new FolderSystem(this.fs, item.path));
+		}
+	}
+
+	/** Subscribes to change events. Events are only emitted while startWatching() is active. */
+	onDidChange(listener: (event: GameChangeEvent) => void): Disposable {
+		this.#listeners.add(listener);
+		return { dispose: () => this.#listeners.delete(listener) };
+	}
+
+	#emit(event: GameChangeEvent) {
+		for (const listener of this.#listeners) {
+			try {
+				listener(event);
+			}
+			catch(e) {
+				console.error(e);
+			}
+		}
+	}
+
+	/**
+	 * Starts watching gameinfo, mount configs and every mounted provider for changes. Returns false if the filesystem cannot watch.
+	 * Changes to the configuration or to the set of mountable content re-parse the game, changed archives are re-indexed,
+	 * and changes inside mounted folders are forwarded as file events.
+	 */
+	async startWatching(): Promise<boolean> {
+		if (!this.fs.watch) return false;
+		if (!await this.validate()) return false;
+		this.#updateWatchers();
+		return true;
+	}
+
+	/** Stops watching for changes. */
+	stopWatching() {
+		for (const watcher of this.#watchers.values()) watcher.dispose();
+		this.#watchers.clear();
+		clearTimeout(this.#timer);
+		this.#timer = undefined;
+		this.#pending = undefined;
+	}
+
+	get watching(): boolean {
+		return this.#watchers.size > 0;
+	}
+
+	#updateWatchers() {
+		if (!this.fs.watch) return;
+
+		// Folders are watched recursively for content changes, and the parents of every provider shallowly for additions & removals.
+		const targets = new Map<string, [string, boolean]>();
+		const add = (path: string, recursive: boolean) => {
+			path = trimSlash(path);
+			targets.set(path + (recursive ? '/**' : ''), [path, recursive]);
+		};
+
+		add(this.modroot, false);
+		add(join(this.modroot, 'cfg'), false);
+		add(join(this.modroot, 'addons'), false);
+
+		// In-memory overlays are watched directly, since they don't live on the game's filesystem.
+		const overlays = new Map<string, MemorySystem>();
+		for (const [, system] of this.providers) {
+			if (system instanceof MemorySystem) {
+				overlays.set(system.getPath(''), system);
+				continue;
+			}
+			if (system.fs !== this.fs) continue;
+			if (system instanceof FolderSystem) {
+				add(system.root, true);
+				add(dirname(trimSlash(system.root)), false);
+			}
+			else {
+				add(dirname(system.path), false);
+			}
+		}
+
+		for (const [key, watcher] of this.#watchers) {
+			if (targets.has(key) || overlays.has(key)) continue;
+			watcher.dispose();
+			this.#watchers.delete(key);
+		}
+
+		for (const [key, [path, recursive]] of targets) {
+			if (this.#watchers.has(key)) continue;
+			this.#watchers.set(key, this.fs.watch(path, (event) => this.#queueChange(event), { recursive }));
+		}
+
+		for (const [key, system] of overlays) {
+			if (this.#watchers.has(key)) continue;
+			this.#watchers.set(key, system.watch('', (event) => {
+				const pending = this.#pending ??= { reload: false, providers: new Set(), files: new Map() };
+				pending.files.set(event.type + ':' + event.path, { kind: 'file', provider: system, path: event.path, type: event.type });
+				this.#scheduleFlush();
+			}, { recursive: true }));
+		}
+	}
+
+	#queueChange(event: FileChangeEvent) {
+		const pending = this.#pending ??= { reload: false, providers: new Set(), files: new Map() };
+		const path = trimSlash(event.path);
+
+		if (CONFIG_FILES.includes(relative(this.modroot, path).toLowerCase())) {
+			pending.reload = true;
+		}
+		else if (event.type !== FileChangeType.Changed && this.#mountPatterns.some(x => matchesSearchPath(x, path))) {
+			pending.reload = true;
+		}
+
+		for (const [, system] of this.providers) {
+			if (system instanceof MemorySystem || system.fs !== this.fs) continue;
+
+			if (system instanceof FolderSystem) {
+				if (!isInside(system.root, path)) continue;
+				system.clearCache();
+				const file = relative(system.root, path);
+				pending.files.set(event.type + ':' + file, { kind: 'file', provider: system, path: file, type: event.type });
+			}
+			else if (system instanceof VpkSystem) {
+				if (path === system.path) pending.providers.add(system);
+				else if (dirname(path) === system.root && basename(path).startsWith(system.name + '_')) system.cleanCache();
+			}
+			else if (path === system.path) {
+				pending.providers.add(system);
+			}
+		}
+
+		this.#scheduleFlush();
+	}
+
+	#scheduleFlush() {
+		clearTimeout(this.#timer);
+		this.#timer = setTimeout(() => this.#flushChanges().catch(e => console.error(e)), WATCH_DELAY);
+	}
+
+	async #flushChanges() {
+		const pending = this.#pending;
+		this.#pending = undefined;
+		this.#timer = undefined;
+		if (!pending) return;
+
+		if (pending.reload) {
+			const before = this.providers.map(x => x[1]);
+			await this.reload();
+			const before_paths = new Set(before.map(x => x.getPath('')));
+			const after_paths = new Set(this.providers.map(x => x[1].getPath('')));
+
+			this.#emit({
+				kind: 'reload',
+				added: this.providers.map(x => x[1]).filter(x => !before_paths.has(x.getPath(''))),
+				removed: before.filter(x => !after_paths.has(x.getPath(''))),
+			});
+
+			if (this.watching) this.#updateWatchers();
+			return;
+		}
+
+		for (const system of pending.providers) {
+			try {
+				if (system instanceof VpkSystem) system.cleanCache();
+				await system.reload();
+			}
+			catch(e) {
+				console.error(e);
+			}
+			this.#emit({ kind: 'provider', provider: system });
+		}
+
+		for (const event of pending.files.values()) this.#emit(event);
+	}
+
+	#sortProviders() {
+		this._providersSorted = this.providers.toSorted((a, b) => providerRank(a[1]) - providerRank(b[1]));
+	}
+
+	/**
+	 * Mounts the pakfile lump of a map above every other search path except overlays, like the engine does while the map is loaded.
+	 * The path may be relative to the game or absolute. Any previously mounted map is unmounted first.
+	 */
+	async mountMap(path: string): Promise<BspPakSystem|undefined> {
+		if (!await this.validate()) return;
+		this.unmountMap();
+
+		// Read the map through the provider that holds it, so the pakfile is never searched for itself.
+		let source: ReadableFileSystem = this.fs;
+		for (const [, system] of this.providers) {
+			const resolved = await system.resolvePath(path);
+			if (resolved === undefined) continue;
+			source = system;
+			path = resolved;
+			break;
+		}
+
+		const pak = new BspPakSystem(source, path);
+		if (!await pak.validate()) {
+			console.warn('Map', "'"+path+"'", 'could not be mounted!');
+			return;
 		}
+
+		this.map = pak;
+		this.providers.splice(this.overlays.length, 0, [['game', 'bsp'], pak]);
+		this.#sortProviders();
+		return pak;
+	}
+
+	/** Lists the names of the addons found in the Source 2 addon roots. */
+	async getAddons(): Promise<string[]> {
+		if (!await this.validate()) return [];
+
+		const out = new Set<string>();
+		for (const root of this.addonRoots) {
+			try {
+				const items = await this.fs.readDirectory(root);
+				for (const [name, type] of items ?? []) {
+					if (type === FileType.Directory) out.add(name);
+				}
+			}
+			catch {}
+		}
+
+		return [...out].sort();
+	}
+
+	/** Mounts a Source 2 addon above the regular search paths (but below a mounted map), like the tools do when an addon is active. */
+	async mountAddon(name: string): Promise<boolean> {
+		if (!await this.validate()) return false;
+		if (this.addons.has(name)) return true;
+		return this.#mountAddon(name);
+	}
+
+	async #mountAddon(name: string): Promise<boolean> {
+		for (const root of this.addonRoots) {
+			const location = join(root, name);
+			const stat = await this.fs.stat(location).catch(() => undefined);
+			if (stat?.type !== FileType.Directory) continue;
+
+			const mounted: [string[], GameProvider][] = [];
+			const vpk_path = join(location, AUTO_VPK);
+			if (await this.fs.stat(vpk_path).catch(() => undefined)) mounted.push([['game', 'mod', 'addon'], this.#createVpk(vpk_path)]);
+			mounted.push([['game', 'mod', 'addon'], new FolderSystem(this.fs, location)]);
+
+			const working: [string[], GameProvider][] = [];
+			for (const provider of mounted) {
+				if (await provider[1].validate()) working.push(provider);
+			}
+
+			const index = this.overlays.length + (this.map ? 1 : 0);
+			this.providers.splice(index, 0, ...working);
+			this.addons.set(name, working.map(x => x[1]));
+			this.#sortProviders();
+			return true;
+		}
+
+		console.warn('Addon', "'"+name+"'", 'could not be found in any addon root!');
+		return false;
+	}
+
+	/** Removes an addon mounted by mountAddon(). */
+	unmountAddon(name: string) {
+		const systems = this.addons.get(name);
+		if (!systems) return;
+		this.providers = this.providers.filter(x => !systems.includes(x[1]));
+		this.addons.delete(name);
+		this.#sortProviders();
+	}
+
+	/**
+	 * Mounts a provider above every other search path, including a mounted map. Overlays mounted later win over earlier ones.
+	 * This is meant for content that isn't on disk yet, such as unsaved editor buffers held in a MemorySystem.
+	 */
+	async mountOverlay(system: GameProvider, qualifiers: string[] = ['game']): Promise<boolean> {
+		if (!await this.validate()) return false;
+		if (!await system.validate()) return false;
+		this.unmountOverlay(system);
+
+		const entry: [string[], GameProvider] = [qualifiers, system];
+		this.overlays.unshift(entry);
+		this.providers.unshift(entry);
+		this.#sortProviders();
+		if (this.watching) this.#updateWatchers();
+		return true;
+	}
+
+	/** Removes a provider mounted by mountOverlay(). */
+	unmountOverlay(system: GameProvider) {
+		if (!this.overlays.some(x => x[1] === system)) return;
+		this.overlays = this.overlays.filter(x => x[1] !== system);
+		this.providers = this.providers.filter(x => x[1] !== system);
+		this.#sortProviders();
+		if (this.watching) this.#updateWatchers();
+	}
+
+	/** Removes the map pakfile mounted by mountMap(), if any. */
+	unmountMap() {
+		if (!this.map) return;
+		this.providers = this.providers.filter(x => x[1] !== this.map);
+		this.map = undefined;
+		this.#sortProviders();
 	}
 
 	async readFile(path: string, qualifier?: string, preferVpk: boolean=false): Promise<Uint8Array | undefined> {
@@ -375,7 +1722,8 @@ export class GameSystem implements ReadableFileSystem {
 		return;
 	}
 
-	async getPath(path: string, qualifier?: string, preferVpk: boolean=false): Promise<string|undefined> {
+	/** Streams a file from the provider that readFile() would use. Providers that cannot stream are read in full. */
+	async readFileStream(path: string, qualifier?: string, preferVpk: boolean=false): Promise<ReadableStream<Uint8Array> | undefined> {
 		if (!await this.validate()) return;
 
 		const providers = preferVpk ? this._providersSorted : this.providers;
@@ -383,14 +1731,75 @@ export class GameSystem implements ReadableFileSystem {
 		for (const [qualifiers, system] of providers) {
 			if (qualifier && !qualifiers.includes(qualifier)) continue;
 
-			const file = await system.stat(path);
+			if ('readFileStream' in system) {
+				const stream = await system.readFileStream(path);
+				if (stream === undefined) continue;
+				return stream;
+			}
+
+			const file = await system.readFile(path);
 			if (file === undefined) continue;
-			return system.getPath(path);
+			return bytesStream(file);
 		}
 
 		return;
 	}
 
+	async getPath(path: string, qualifier?: string, preferVpk: boolean=false): Promise<string|undefined> {
+		if (!await this.validate()) return;
+
+		const providers = preferVpk ? this._providersSorted : this.providers;
+
+		for (const [qualifiers, system] of providers) {
+			if (qualifier && !qualifiers.includes(qualifier)) continue;
+
+			const resolved = await system.resolvePath(path);
+			if (resolved === undefined) continue;
+			return system.getPath(resolved);
+		}
+
+		return;
+	}
+
+	/**
+	 * Finds the folder that writes with the given qualifier should go to, following the engine's rules:
+	 * a search path marked `<qualifier>_write`, then the one marked `default_write_path`,
+	 * then the first folder with the qualifier, and finally the mod root.
+	 */
+	async getWritePath(qualifier?: string): Promise<FolderSystem|undefined> {
+		if (!await this.validate()) return;
+
+		const folders = this.providers.filter((x): x is [string[], FolderSystem] => x[1] instanceof FolderSystem);
+		if (qualifier) {
+			const marked = folders.find(x => x[0].includes(qualifier + '_write'));
+			if (marked) return marked[1];
+		}
+
+		const fallback = folders.find(x => x[0].includes('default_write_path'));
+		if (fallback) return fallback[1];
+
+		if (qualifier) {
+			const first = folders.find(x => x[0].includes(qualifier));
+			if (first) return first[1];
+		}
+
+		return new FolderSystem(this.fs, this.modroot);
+	}
+
+	/** Writes a file to the write path for the given qualifier. Returns the absolute path written, or undefined on failure. */
+	async writeFile(path: string, data: Uint8Array, qualifier?: string): Promise<string|undefined> {
+		const folder = await this.getWritePath(qualifier);
+		if (!folder) return;
+
+		if (!await folder.writeFile(path, data)) {
+			console.error('Failed to write', "'"+path+"'", 'to', "'"+folder.root+"'");
+			return;
+		}
+
+		const resolved = await folder.resolvePath(path);
+		return folder.getPath(resolved ?? path);
+	}
+
 	async readDirectory(path: string, qualifier?: string): Promise<[string, FileType][] | undefined> {
 		if (!await this.validate()) return;
 
@@ -406,8 +1815,9 @@ export class GameSystem implements ReadableFileSystem {
 
 			exists = true;
 			f: for (const file of files) {
-				if (found[file[0]]) continue f;
-				found[file[0]] = true;
+				const folded = file[0].toLowerCase();
+				if (found[folded]) continue f;
+				found[folded] = true;
 				out.push(file);
 			}
 		}
@@ -416,6 +1826,193 @@ export class GameSystem implements ReadableFileSystem {
 		return;
 	}
 
+	/** Describes a single provider's copy of a file, or returns undefined if it has none. */
+	async #matchProvider(qualifiers: string[], system: GameProvider, path: string): Promise<ProviderMatch|undefined> {
+		const stat = await system.stat(path);
+		if (!stat || stat.type === FileType.Directory) return undefined;
+
+		const resolved = (await system.resolvePath(path)) ?? path;
+		const match: ProviderMatch = {
+			provider: system,
+			qualifiers,
+			kind: system.kind,
+			path: system.getPath(resolved),
+			size: stat.size,
+		};
+
+		if (system instanceof VpkSystem) {
+			const info = await system.getFileInfo(path);
+			match.archiveIndex = info?.archiveIndex;
+			match.offset = info?.offset;
+		}
+		return match;
+	}
+
+	/** Returns every provider containing the path, in priority order. The first entry is the one readFile() uses. */
+	async resolveAll(path: string, qualifier?: string): Promise<ProviderMatch[]> {
+		if (!await this.validate()) return [];
+
+		const out: ProviderMatch[] = [];
+		for (const [qualifiers, system] of this.#uniqueProviders(qualifier)) {
+			const match = await this.#matchProvider(qualifiers, system, path);
+			if (match) out.push(match);
+		}
+
+		return out;
+	}
+
+	/**
+	 * Lists the providers in search order, once each, with the path IDs of all of their entries merged.
+	 * A location listed under several path IDs (like `mod` and `game` for the mod folder) shares one provider.
+	 */
+	#uniqueProviders(qualifier?: string): [string[], GameProvider][] {
+		const merged = new Map<GameProvider, string[]>();
+		for (const [qualifiers, system] of this.providers) {
+			const list = merged.get(system);
+			if (list) list.push(...qualifiers.filter(x => !list.includes(x)));
+			else merged.set(system, [...qualifiers]);
+		}
+
+		const out: [string[], GameProvider][] = [];
+		const seen = new Set<GameProvider>();
+		for (const [qualifiers, system] of this.providers) {
+			if (qualifier && !qualifiers.includes(qualifier)) continue;
+			if (seen.has(system)) continue;
+			seen.add(system);
+			out.push([merged.get(system)!, system]);
+		}
+		return out;
+	}
+
+	/** Lists every file path in a provider, relative to its root. */
+	async #listProviderFiles(system: GameProvider): Promise<string[]> {
+		if (system instanceof VpkSystem) {
+			if (!await system.validate()) return [];
+			return Object.keys(system.files).map(x => x.slice(1));
+		}
+		if (system instanceof FolderSystem || system instanceof MemorySystem) {
+			const out: string[] = [];
+			for await (const file of walkFiles(system)) out.push(file);
+			return out;
+		}
+		if (!await system.validate()) return [];
+		return Object.keys(system.index.files).map(x => x.slice(1));
+	}
+
+	/** Lists every file that the game can load, with the provider that wins for each. Sorted by path. */
+	async listFiles(qualifier?: string): Promise<GameFileEntry[]> {
+		if (!await this.validate()) return [];
+
+		const winners = new Map<string, [string, string[], GameProvider]>();
+		for (const [qualifiers, system] of this.#uniqueProviders(qualifier)) {
+			for (const file of await this.#listProviderFiles(system)) {
+				const folded = foldPath(file);
+				if (!winners.has(folded)) winners.set(folded, [file, qualifiers, system]);
+			}
+		}
+
+		const out: GameFileEntry[] = [];
+		for (const [file, qualifiers, system] of winners.values()) {
+			const match = await this.#matchProvider(qualifiers, system, file);
+			if (match) out.push({ path: file, winner: match });
+		}
+
+		return out.sort((a, b) => a.path < b.path ? -1 : 1);
+	}
+
+	/** Lists the files in a provider below `prefix` whose path matches `regex`, relative to the provider's root and sorted. */
+	async #findProviderFiles(system: GameProvider, prefix: string, regex: RegExp): Promise<string[]> {
+		const out: string[] = [];
+
+		if (system instanceof FolderSystem || system instanceof MemorySystem) {
+			const root = prefix.length ? await system.resolvePath(prefix) : '';
+			if (root === undefined) return out;
+			for await (const file of walkFiles(system, root)) {
+				const path = root.length ? root + '/' + file : file;
+				if (regex.test(path)) out.push(path);
+			}
+		}
+		else {
+			// Archives are searched through their index, only visiting the subtree below the prefix.
+			if (!await system.validate()) return out;
+			for (const [key] of system.index.entries(prefix)) {
+				if (regex.test(key.slice(1))) out.push(key.slice(1));
+			}
+		}
+
+		return out.sort((a, b) => a.toLowerCase() < b.toLowerCase() ? -1 : 1);
+	}
+
+	/**
+	 * Finds the files matching a glob like `materials/**.vmt`, in priority order. `**` matches any number of folders,
+	 * and a glob without a slash matches at any depth. Paths found in several providers are only returned for the first.
+	 */
+	async find(pattern: string, options: FindOptions = {}): Promise<FindResult[]> {
+		if (!await this.validate()) return [];
+		const limit = options.limit ?? Infinity;
+		if (limit <= 0) return [];
+
+		// Only the folders before the first wildcard need to be searched.
+		const parts = normalizePath(pattern).split('/');
+		const literal = parts.slice(0, -1);
+		const wild = literal.findIndex(x => hasWildcard(x));
+		const prefix = (wild === -1 ? literal : literal.slice(0, wild)).join('/');
+		const regex = globRegExp(pattern);
+
+		const found = new Set<string>();
+		const searched = new Set<GameProvider>();
+		const out: FindResult[] = [];
+
+		for (const [qualifiers, system] of this.providers) {
+			if (options.qualifier && !qualifiers.includes(options.qualifier)) continue;
+			if (options.kinds && !options.kinds.includes(system.kind)) continue;
+			if (searched.has(system)) continue;
+			searched.add(system);
+
+			for (const path of await this.#findProviderFiles(system, prefix, regex)) {
+				const folded = path.toLowerCase();
+				if (found.has(folded)) continue;
+				found.add(folded);
+				out.push({ path, provider: system });
+				if (out.length >= limit) return out;
+			}
+		}
+
+		return out;
+	}
+
+	/** Builds a report of every file that exists in more than one provider, and which copy wins. */
+	async getOverrides(qualifier?: string): Promise<OverrideEntry[]> {
+		if (!await this.validate()) return [];
+
+		// Collect the providers of every file, keyed by folded path so that casing differences still collide.
+		const owners = new Map<string, [string, string[], GameProvider][]>();
+		for (const [qualifiers, system] of this.#uniqueProviders(qualifier)) {
+			for (const file of await this.#listProviderFiles(system)) {
+				const folded = foldPath(file);
+				let list = owners.get(folded);
+				if (!list) owners.set(folded, list = []);
+				list.push([file, qualifiers, system]);
+			}
+		}
+
+		const out: OverrideEntry[] = [];
+		for (const list of owners.values()) {
+			if (list.length < 2) continue;
+
+			const matches: ProviderMatch[] = [];
+			for (const [file, qualifiers, system] of list) {
+				const match = await this.#matchProvider(qualifiers, system, file);
+				if (match) matches.push(match);
+			}
+			if (matches.length < 2) continue;
+
+			out.push({ path: list[0][0], winner: matches[0], shadowed: matches.slice(1) });
+		}
+
+		return out.sort((a, b) => a.path < b.path ? -1 : 1);
+	}
+
 	async stat(path: string, qualifier?: string): Promise<FileStat | undefined> {
 		if (!await this.validate()) return;
 
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { GmaSystem, MemorySystem, setLogTarget, type ReadableFileSystem } from './index.js';
+import { crc32 } from './hash.js';
+
+setLogTarget({ log() {}, warn() {}, error() {} });
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Writes a version 3 .gma with the given files, like gmad does. */
+function buildGma(files: Record<string, string>): Uint8Array {
+	const parts: number[] = [];
+	const bytes = (data: Uint8Array) => parts.push(...data);
+	const string = (value: string) => { bytes(encoder.encode(value)); parts.push(0); };
+	const int = (value: number|bigint, size: number) => {
+		const out = new Uint8Array(8);
+		new DataView(out.buffer).setBigUint64(0, BigInt(value), true);
+		bytes(out.subarray(0, size));
+	};
+
+	bytes(encoder.encode('GMAD'));
+	parts.push(3);
+	int(76561197960265728n, 8);
+	int(1700000000, 8);
+	string('');
+	string('Test Addon');
+	string(JSON.stringify({ description: 'An addon', type: 'tool', tags: ['fun'] }));
+	string('Author');
+	int(1, 4);
+
+	const entries = Object.entries(files).map(([path, data]) => [path, encoder.encode(data)] as const);
+	entries.forEach(([path, data], index) => {
+		int(index + 1, 4);
+		string(path);
+		int(data.length, 8);
+		int(crc32(data), 4);
+	});
+	int(0, 4);
+	for (const [, data] of entries) bytes(data);
+
+	const out = new Uint8Array(parts);
+	const crc = new Uint8Array(4);
+	new DataView(crc.buffer).setUint32(0, crc32(out), true);
+	return new Uint8Array([...out, ...crc]);
+}
+
+const FILES = {
+	'lua/autorun/test.lua': 'print("hi")',
+	'materials/test/a.vmt': '"VertexLitGeneric" {}',
+};
+
+describe('GmaSystem', () => {
+	test('reads the metadata and files', async () => {
+		const gma = new GmaSystem(new MemorySystem({ '/a.gma': buildGma(FILES) }), '/a.gma');
+		expect(await gma.validate()).toBe(true);
+		expect(gma.metadata?.name).toBe('Test Addon');
+		expect(gma.metadata?.description).toBe('An addon');
+		expect(gma.metadata?.tags).toEqual(['fun']);
+		for (const path in FILES) expect(decoder.decode(await gma.readFile(path))).toBe(FILES[path as keyof typeof FILES]);
+		expect((await gma.readDirectory('materials/test'))?.map(x => x[0])).toEqual(['a.vmt']);
+		expect((await gma.verify())?.ok).toBe(true);
+	});
+
+	test('reads the archive once without range reads', async () => {
+		const fs = new MemorySystem({ '/a.gma': buildGma(FILES) });
+		let reads = 0;
+		const plain: ReadableFileSystem = {
+			readFile: (path) => { reads++; return fs.readFile(path); },
+			readDirectory: (path) => fs.readDirectory(path),
+			stat: (path) => fs.stat(path),
+		};
+
+		const gma = new GmaSystem(plain, '/a.gma');
+		for (let i = 0; i < 3; i++) {
+			for (const path in FILES) expect(decoder.decode(await gma.readFile(path))).toBe(FILES[path as keyof typeof FILES]);
+		}
+		expect(reads).toBe(1);
+	});
+
+	test('reports corrupted files', async () => {
+		const data = buildGma(FILES);
+		data[data.length - 5] ^= 0xff;
+		const report = await new GmaSystem(new MemorySystem({ '/a.gma': data }), '/a.gma').verify();
+		expect(report?.ok).toBe(false);
+		expect(report?.failed).toEqual(['/materials/test/a.vmt']);
+		expect(report?.archiveCrc).toBe(false);
+	});
+});
@@ -0,0 +1,264 @@
+import { FileType, InitState, type FileStat, type ReadableFileSystem, __console__ as console } from './index.js';
+import { ArchiveIndex, LazyLoader } from './archive.js';
+import { crc32 } from './hash.js';
+import { ArchiveError } from './errors.js';
+import Path from 'path/posix';
+
+const SIGNATURE = 'GMAD';
+const VER_MAX = 3;
+const LE = true;
+const HEADER_READ_SIZE = 64 * 1024;
+
+export interface GmaFileInfo {
+	size: number;
+	crc: number;
+	/** Offset of the file body, relative to the end of the file table. */
+	offset: number;
+}
+
+export interface GmaMetadata {
+	name: string;
+	/** The plain description. Addons created by gmad store a JSON object here, which is unpacked into the fields below. */
+	description: string;
+	type?: string;
+	tags: string[];
+	author: string;
+	version: number;
+	steamid: bigint;
+	timestamp: number;
+	/** Content that must be mounted for this addon to work. Usually empty. */
+	required: string[];
+}
+
+export interface GmaVerifyReport {
+	ok: boolean;
+	/** Files whose CRC did not match. Files stored with a CRC of zero are not checked. */
+	failed: string[];
+	/** Result of the trailing whole-archive CRC, or undefined if the archive does not have one. */
+	archiveCrc?: boolean;
+}
+
+/** Reads Garry's Mod addon (.gma) archives. */
+export class GmaSystem implements ReadableFileSystem {
+	public readonly kind = 'gma';
+	public readonly fs: ReadableFileSystem;
+	public readonly path: string;
+	public initialized: InitState = InitState.None;
+	public metadata?: GmaMetadata;
+
+	index = new ArchiveIndex<GmaFileInfo>(info => info.size);
+	dataOffset: number = 0;
+	#data?: Uint8Array;
+	#loader = new LazyLoader({
+		parse: (signal) => this.parse(signal),
+		unparsed: () => this.initialized === InitState.None,
+		ready: () => this.initialized === InitState.Ready,
+	});
+
+	constructor(fs: ReadableFileSystem, path: string) {
+		this.fs = fs;
+		this.path = path;
+	}
+
+	/** Reads a byte range, keeping the whole file after the first read if the filesystem cannot read ranges. */
+	async #read(offset: number, length: number): Promise<Uint8Array|undefined> {
+		if (this.fs.readFileRange) return this.fs.readFileRange(this.path, offset, length);
+
+		this.#data ??= await this.fs.readFile(this.path);
+		return this.#data?.slice(offset, offset + length);
+	}
+
+	async parse(signal?: AbortSignal): Promise<boolean> {
+		this.initialized = InitState.Error;
+		this.index.clear();
+		this.metadata = undefined;
+		this.#data = undefined;
+
+		const stat = await this.fs.stat(this.path);
+		signal?.throwIfAborted();
+		if (!stat) return false;
+
+		// The header has no stated size, so read progressively larger windows until the file table fits.
+		let window = Math.min(HEADER_READ_SIZE, stat.size);
+		while (true) {
+			const bytes = await this.#read(0, window);
+			signal?.throwIfAborted();
+			if (!bytes) return false;
+
+			try {
+				this.#parseHeader(bytes);
+				break;
+			}
+			catch(e) {
+				if (!(e instanceof RangeError) || window >= stat.size) throw e;
+				window = Math.min(window * 2, stat.size);
+				this.index.clear();
+			}
+		}
+
+		this.initialized = InitState.Ready;
+		return true;
+	}
+
+	#parseHeader(bytes: Uint8Array) {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const TD = new TextDecoder();
+		let i = 0;
+
+		function readString(): string {
+			const end = bytes.indexOf(0x00, i);
+			if (end === -1) throw new RangeError('Failed to terminate string!');
+			const out = TD.decode(bytes.subarray(i, end));
+			i = end + 1;
+			return out;
+		}
+
+		if (bytes.length < 4 || TD.decode(bytes.subarray(0, 4)) !== SIGNATURE) throw new ArchiveError('Invalid gma signature!', { path: this.path });
+		const version = view.getUint8(4);
+		if (version > VER_MAX) throw new ArchiveError(`Invalid gma version! (${version})`, { path: this.path });
+
+		const steamid = view.getBigUint64(5, LE);
+		const timestamp = Number(view.getBigUint64(13, LE));
+		i = 21;
+
+		const required: string[] = [];
+		if (version > 1) {
+			while (true) {
+				const content = readString();
+				if (!content.length) break;
+				required.push(content);
+			}
+		}
+
+		const name = readString();
+		let description = readString();
+		const author = readString();
+		const addon_version = view.getInt32(i, LE);
+		i += 4;
+
+		let type: string|undefined;
+		let tags: string[] = [];
+		try {
+			const json = JSON.parse(description);
+			if (json && typeof json === 'object') {
+				if (typeof json.description === 'string') description = json.description;
+				if (typeof json.type === 'string') type = json.type;
+				if (Array.isArray(json.tags)) tags = json.tags.filter((x: unknown) => typeof x === 'string');
+			}
+		}
+		catch {}
+
+		// File table
+		let offset = 0;
+		while (true) {
+			const file_number = view.getUint32(i, LE);
+			i += 4;
+			if (file_number === 0) break;
+
+			const path = readString();
+			const size = Number(view.getBigInt64(i, LE));
+			const crc = view.getUint32(i + 8, LE);
+			i += 12;
+
+			this.index.addFile(path, { size, crc, offset });
+			offset += size;
+		}
+
+		this.dataOffset = i;
+		this.metadata = { name, description, type, tags, author, version: addon_version, steamid, timestamp, required };
+	}
+
+	async validate() {
+		return this.#loader.validate();
+	}
+
+	reload(): Promise<boolean> {
+		return this.#loader.reload();
+	}
+
+	getPath(path: string): string {
+		return Path.join(this.path, path);
+	}
+
+	/** Returns the path as stored in the archive, or undefined if it does not exist. */
+	async resolvePath(path: string): Promise<string|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.resolveFile(path) ?? this.index.resolveDir(path);
+	}
+
+	async getFileInfo(path: string): Promise<GmaFileInfo|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.getFile(path);
+	}
+
+	async readFile(path: string): Promise<Uint8Array|undefined> {
+		const info = await this.getFileInfo(path);
+		if (!info) return undefined;
+
+		const data = await this.#read(this.dataOffset + info.offset, info.size);
+		if (!data || data.length < info.size) return undefined;
+		return data;
+	}
+
+	async readDirectory(path: string): Promise<[string, FileType][]|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.list(path);
+	}
+
+	async stat(path: string): Promise<FileStat | undefined> {
+		const file = await this.getFileInfo(path);
+		const mtime = (this.metadata?.timestamp ?? 0) * 1000;
+
+		if (file) return {
+			ctime: mtime,
+			mtime: mtime,
+			size: file.size,
+			type: FileType.File,
+		};
+
+		if (this.index.resolveDir(path) !== undefined) return {
+			ctime: mtime,
+			mtime: mtime,
+			size: 0,
+			type: FileType.Directory,
+		};
+
+		return undefined;
+	}
+
+	/** Checks each file's CRC and the trailing archive CRC. Returns undefined if the archive could not be parsed. */
+	async verify(): Promise<GmaVerifyReport|undefined> {
+		if (!await this.validate()) return undefined;
+
+		const report: GmaVerifyReport = { ok: true, failed: [] };
+		for (const path in this.index.files) {
+			const info = this.index.files[path];
+			if (info.crc === 0) continue;
+
+			const data = await this.readFile(path);
+			if (data && crc32(data) === info.crc) continue;
+			report.failed.push(path);
+			report.ok = false;
+		}
+
+		const bytes = await this.fs.readFile(this.path);
+		if (!bytes) {
+			report.ok = false;
+			return report;
+		}
+
+		let data_size = 0;
+		for (const path in this.index.files) data_size += this.index.files[path].size;
+
+		const end = this.dataOffset + data_size;
+		if (bytes.length >= end + 4) {
+			const expected = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(end, LE);
+			if (expected !== 0) {
+				report.archiveCrc = crc32(bytes.subarray(0, end)) === expected;
+				if (!report.archiveCrc) report.ok = false;
+			}
+		}
+
+		return report;
+	}
+}
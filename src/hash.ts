@@ -0,0 +1,88 @@
+/** Small, dependency-free checksum implementations used by the archive formats. */
+
+let CRC_TABLE: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+	if (CRC_TABLE) return CRC_TABLE;
+	CRC_TABLE = new Uint32Array(256);
+	for (let n=0; n<256; n++) {
+		let c = n;
+		for (let k=0; k<8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		CRC_TABLE[n] = c >>> 0;
+	}
+	return CRC_TABLE;
+}
+
+/** Computes the CRC32 (IEEE) checksum of the given bytes. Pass a previous result as `crc` to continue a running checksum. */
+export function crc32(data: Uint8Array, crc: number=0): number {
+	const table = getCrcTable();
+	crc = ~crc;
+	for (let i=0; i<data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	return ~crc >>> 0;
+}
+
+const MD5_S = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+	5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+	4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+	6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_K = new Uint32Array(64);
+for (let i=0; i<64; i++) MD5_K[i] = Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0;
+
+/** Computes the MD5 digest of the given bytes. WebCrypto does not provide MD5, so VPK checksums need this. */
+export function md5(data: Uint8Array): Uint8Array {
+	// Pad the message to a multiple of 64 bytes, with the bit length in the final 8 bytes.
+	const padded_length = (((data.length + 8) >>> 6) + 1) << 6;
+	const buffer = new Uint8Array(padded_length);
+	buffer.set(data);
+	buffer[data.length] = 0x80;
+
+	const view = new DataView(buffer.buffer);
+	const bits = data.length * 8;
+	view.setUint32(padded_length - 8, bits >>> 0, true);
+	view.setUint32(padded_length - 4, Math.floor(bits / 0x100000000), true);
+
+	let a0 = 0x67452301, b0 = 0xefcdab89, c0 = 0x98badcfe, d0 = 0x10325476;
+	const M = new Uint32Array(16);
+
+	for (let chunk=0; chunk<padded_length; chunk+=64) {
+		for (let j=0; j<16; j++) M[j] = view.getUint32(chunk + j*4, true);
+		let A = a0, B = b0, C = c0, D = d0;
+
+		for (let i=0; i<64; i++) {
+			let F: number, g: number;
+			if (i < 16)      { F = (B & C) | (~B & D); g = i; }
+			else if (i < 32) { F = (D & B) | (~D & C); g = (5*i + 1) % 16; }
+			else if (i < 48) { F = B ^ C ^ D;          g = (3*i + 5) % 16; }
+			else             { F = C ^ (B | ~D);       g = (7*i) % 16; }
+
+			F = (F + A + MD5_K[i] + M[g]) >>> 0;
+			A = D;
+			D = C;
+			C = B;
+			B = (B + ((F << MD5_S[i]) | (F >>> (32 - MD5_S[i])))) >>> 0;
+		}
+
+		a0 = (a0 + A) >>> 0;
+		b0 = (b0 + B) >>> 0;
+		c0 = (c0 + C) >>> 0;
+		d0 = (d0 + D) >>> 0;
+	}
+
+	const out = new Uint8Array(16);
+	const out_view = new DataView(out.buffer);
+	out_view.setUint32(0, a0, true);
+	out_view.setUint32(4, b0, true);
+	out_view.setUint32(8, c0, true);
+	out_view.setUint32(12, d0, true);
+	return out;
+}
+
+/** Compares two byte arrays for equality. */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) return false;
+	for (let i=0; i<a.length; i++) if (a[i] !== b[i]) return false;
+	return true;
+}
@@ -1,5 +1,12 @@
 import { GameSystem, SteamCache } from './game.js';
-import { VpkSystem } from './vpk.js';
+import { VpkSystem, VpkBuilder } from './vpk.js';
+import { ArchiveCache, IndexCache } from './cache.js';
+import { ZipSystem } from './zip.js';
+import { BspPakSystem } from './bsp.js';
+import { GmaSystem } from './gma.js';
+import { MemorySystem } from './memory.js';
+import { extract } from './extract.js';
+import { SfsError, ArchiveError, GameInfoError } from './errors.js';
 
 export function setLogTarget(target: typeof __console__) {
 	if (!target) throw Error('Attempted to set console to undefined!')
@@ -15,14 +22,62 @@ export let __console__: {
 export {
 	GameSystem,
 	VpkSystem,
+	VpkBuilder,
+	ZipSystem,
+	BspPakSystem,
+	GmaSystem,
+	MemorySystem,
 	SteamCache,
+	ArchiveCache,
+	IndexCache,
+	extract,
+	SfsError,
+	ArchiveError,
+	GameInfoError,
 }
 
+export type { Diagnostic, DiagnosticCode, DiagnosticOrigin, DiagnosticSeverity } from './errors.js';
+
 /** Implements a subset of the VSC FileSystem interface. */
 export interface ReadableFileSystem {
 	readFile(path: string): Promise<Uint8Array|undefined>;
 	readDirectory(path: string): Promise<[string, FileType][]|undefined>;
 	stat(path: string): Promise<FileStat|undefined>;
+	/** Optionally reads `length` bytes starting at `offset`. The result may be shorter than requested if the file ends first. */
+	readFileRange?(path: string, offset: number, length: number): Promise<Uint8Array|undefined>;
+	/** Optionally streams a file instead of reading it all at once. Resolves to undefined if the file does not exist. */
+	readFileStream?(path: string): Promise<ReadableStream<Uint8Array>|undefined>;
+	/** Optionally watches a file or directory for changes. Event paths are absolute in the context of this filesystem. */
+	watch?(path: string, listener: (event: FileChangeEvent) => void, options?: { recursive?: boolean }): Disposable;
+}
+
+/** VSC Disposable interface for library portability. */
+export interface Disposable {
+	dispose(): void;
+}
+
+/** VSC FileChangeType enum for library portability. */
+export enum FileChangeType {
+	Changed = 1,
+	Created = 2,
+	Deleted = 3
+}
+
+export interface FileChangeEvent {
+	type: FileChangeType;
+	path: string;
+}
+
+/** Implements a subset of the VSC FileSystem write interface. Methods resolve to false on failure. */
+export interface WritableFileSystem extends ReadableFileSystem {
+	writeFile(path: string, data: Uint8Array): Promise<boolean>;
+	delete(path: string, options?: { recursive?: boolean }): Promise<boolean>;
+	createDirectory(path: string): Promise<boolean>;
+	rename(source: string, target: string, options?: { overwrite?: boolean }): Promise<boolean>;
+}
+
+export function isWritable(fs: ReadableFileSystem): fs is WritableFileSystem {
+	return 'writeFile' in fs && typeof (fs as WritableFileSystem).writeFile === 'function';
 }
 
 /** VSC FileType enum for library portability. */
@@ -0,0 +1,258 @@
+import { FileChangeType, FileType, type Disposable, type FileChangeEvent, type FileStat, type WritableFileSystem } from './index.js';
+import { foldPath, normalizePath } from './path.js';
+import { join } from 'path/posix';
+
+interface MemoryEntry {
+	type: FileType;
+	data?: Uint8Array;
+	ctime: number;
+	mtime: number;
+}
+
+interface MemoryWatcher {
+	/** The watched path as passed to watch(), used to build event paths. */
+	path: string;
+	key: string;
+	recursive: boolean;
+	listener: (event: FileChangeEvent) => void;
+}
+
+/**
+ * A filesystem held entirely in memory. Paths may be absolute or relative, and are matched case-insensitively
+ * when there is no exact match. It can back a GameSystem directly, or be mounted over one with mountOverlay().
+ */
+export class MemorySystem implements WritableFileSystem {
+	public readonly kind = 'memory';
+	public readonly name: string;
+
+	#entries = new Map<string, MemoryEntry>();
+	#folded = new Map<string, string>();
+	#watchers = new Set<MemoryWatcher>();
+
+	/** @param files Initial files, keyed by path. Strings are stored as UTF-8. */
+	constructor(files: Record<string, Uint8Array|string> = {}, name: string = 'memory') {
+		this.name = name;
+		const now = Date.now();
+		this.#entries.set('', { type: FileType.Directory, ctime: now, mtime: now });
+		this.#folded.set('', '');
+		for (const path in files) this.#setFile(normalizePath(path), files[path], now);
+	}
+
+	async validate() {
+		return true;
+	}
+
+	getPath(path: string): string {
+		return `mem://${this.name}/${normalizePath(path)}`;
+	}
+
+	#resolve(path: string): string|undefined {
+		const normal = normalizePath(path);
+		if (this.#entries.has(normal)) return normal;
+		return this.#folded.get(foldPath(normal));
+	}
+
+	/** Returns the path with its stored casing, or undefined if it does not exist. */
+	async resolvePath(path: string): Promise<string|undefined> {
+		return this.#resolve(path);
+	}
+
+	async readFile(path: string): Promise<Uint8Array | undefined> {
+		const key = this.#resolve(path);
+		if (key === undefined) return undefined;
+		return this.#entries.get(key)!.data?.slice();
+	}
+
+	async readFileRange(path: string, offset: number, length: number): Promise<Uint8Array | undefined> {
+		const key = this.#resolve(path);
+		if (key === undefined) return undefined;
+		return this.#entries.get(key)!.data?.slice(offset, offset + length);
+	}
+
+	async readDirectory(path: string): Promise<[string, FileType][] | undefined> {
+		const key = this.#resolve(path);
+		if (key === undefined || this.#entries.get(key)!.type !== FileType.Directory) return undefined;
+
+		const prefix = key.length ? key + '/' : '';
+		const out: [string, FileType][] = [];
+		for (const [child, entry] of this.#entries) {
+			if (!child.length || !child.startsWith(prefix)) continue;
+			if (child.indexOf('/', prefix.length) !== -1) continue;
+			out.push([child.slice(prefix.length), entry.type]);
+		}
+		return out;
+	}
+
+	async stat(path: string): Promise<FileStat | undefined> {
+		const key = this.#resolve(path);
+		if (key === undefined) return undefined;
+		const entry = this.#entries.get(key)!;
+		return {
+			type: entry.type,
+			ctime: entry.ctime,
+			mtime: entry.mtime,
+			size: entry.data?.length ?? 0,
+		};
+	}
+
+	/** Creates a directory and any missing parents, reusing the casing of existing ones. Returns the stored path, or undefined if a file is in the way. */
+	#makeDirectory(path: string, now: number): string|undefined {
+		let current = '';
+		for (const part of path.split('/')) {
+			if (!part.length) continue;
+			const next = current.length ? current + '/' + part : part;
+			const existing = this.#resolve(next);
+
+			if (existing !== undefined) {
+				if (this.#entries.get(existing)!.type !== FileType.Directory) return undefined;
+				current = existing;
+				continue;
+			}
+
+			this.#entries.set(next, { type: FileType.Directory, ctime: now, mtime: now });
+			this.#folded.set(foldPath(next), next);
+			this.#touchParent(next, now);
+			this.#emit(FileChangeType.Created, next);
+			current = next;
+		}
+		return current;
+	}
+
+	#setFile(path: string, data: Uint8Array|string, now: number): boolean {
+		const slash = path.lastIndexOf('/');
+		const parent = this.#makeDirectory(slash === -1 ? '' : path.slice(0, slash), now);
+		if (parent === undefined) return false;
+
+		const name = slash === -1 ? path : path.slice(slash + 1);
+		const target = this.#resolve(join(parent, name)) ?? join(parent, name);
+		const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data.slice();
+
+		const existing = this.#entries.get(target);
+		if (existing?.type === FileType.Directory) return false;
+
+		this.#entries.set(target, { type: FileType.File, data: bytes, ctime: existing?.ctime ?? now, mtime: now });
+		this.#folded.set(foldPath(target), target);
+		if (!existing) this.#touchParent(target, now);
+		this.#emit(existing ? FileChangeType.Changed : FileChangeType.Created, target);
+		return true;
+	}
+
+	#touchParent(path: string, now: number) {
+		const slash = path.lastIndexOf('/');
+		const parent = this.#entries.get(slash === -1 ? '' : path.slice(0, slash));
+		if (parent) parent.mtime = now;
+	}
+
+	/** Removes an entry and everything below it. */
+	#remove(key: string) {
+		const prefix = key + '/';
+		for (const child of [...this.#entries.keys()]) {
+			if (child !== key && !child.startsWith(prefix)) continue;
+			this.#entries.delete(child);
+			if (this.#folded.get(foldPath(child)) === child) this.#folded.delete(foldPath(child));
+		}
+
+		// Another entry with different casing may now be the only match for the folded path.
+		for (const other of this.#entries.keys()) {
+			const folded = foldPath(other);
+			if (!this.#folded.has(folded)) this.#folded.set(folded, other);
+		}
+	}
+
+	/** Writes a file, creating any missing parent directories. Strings are stored as UTF-8. */
+	async writeFile(path: string, data: Uint8Array|string): Promise<boolean> {
+		const normal = normalizePath(path);
+		if (!normal.length) return false;
+		return this.#setFile(normal, data, Date.now());
+	}
+
+	async delete(path: string, options?: { recursive?: boolean }): Promise<boolean> {
+		const key = this.#resolve(path);
+		if (!key?.length) return false;
+
+		const entry = this.#entries.get(key)!;
+		if (entry.type === FileType.Directory && !options?.recursive && (await this.readDirectory(key))!.length) return false;
+
+		this.#remove(key);
+		this.#touchParent(key, Date.now());
+		this.#emit(FileChangeType.Deleted, key);
+		return true;
+	}
+
+	async createDirectory(path: string): Promise<boolean> {
+		return this.#makeDirectory(normalizePath(path), Date.now()) !== undefined;
+	}
+
+	async rename(source: string, target: string, options?: { overwrite?: boolean }): Promise<boolean> {
+		const from = this.#resolve(source);
+		if (!from?.length) return false;
+
+		const to_normal = normalizePath(target);
+		if (!to_normal.length || to_normal === from || foldPath(to_normal).startsWith(foldPath(from) + '/')) return false;
+
+		// Renaming to a different casing of the same path is always allowed.
+		const existing = this.#resolve(to_normal);
+		if (existing !== undefined && existing !== from) {
+			if (!options?.overwrite) return false;
+			this.#remove(existing);
+		}
+
+		const now = Date.now();
+		const slash = to_normal.lastIndexOf('/');
+		const parent = this.#makeDirectory(slash === -1 ? '' : to_normal.slice(0, slash), now);
+		if (parent === undefined) return false;
+		const to = join(parent, slash === -1 ? to_normal : to_normal.slice(slash + 1));
+
+		const moved: [string, MemoryEntry][] = [];
+		for (const [key, entry] of this.#entries) {
+			if (key === from || key.startsWith(from + '/')) moved.push([to + key.slice(from.length), entry]);
+		}
+
+		this.#remove(from);
+		for (const [key, entry] of moved) {
+			this.#entries.set(key, entry);
+			this.#folded.set(foldPath(key), key);
+		}
+
+		this.#touchParent(from, now);
+		this.#touchParent(to, now);
+		this.#emit(FileChangeType.Deleted, from);
+		this.#emit(FileChangeType.Created, to);
+		return true;
+	}
+
+	/** Removes every file and directory. */
+	clear() {
+		const now = Date.now();
+		for (const [name] of this.#entries) {
+			if (name.length && name.indexOf('/') === -1) this.#emit(FileChangeType.Deleted, name);
+		}
+		this.#entries.clear();
+		this.#folded.clear();
+		this.#entries.set('', { type: FileType.Directory, ctime: now, mtime: now });
+		this.#folded.set('', '');
+	}
+
+	watch(path: string, listener: (event: FileChangeEvent) => void, options?: { recursive?: boolean }): Disposable {
+		const watcher: MemoryWatcher = { path, key: foldPath(path), recursive: options?.recursive ?? false, listener };
+		this.#watchers.add(watcher);
+		return { dispose: () => this.#watchers.delete(watcher) };
+	}
+
+	#emit(type: FileChangeType, key: string) {
+		const folded = foldPath(key);
+		for (const watcher of this.#watchers) {
+			const prefix = watcher.key.length ? watcher.key + '/' : '';
+			if (folded !== watcher.key && !folded.startsWith(prefix)) continue;
+
+			// Non-recursive watchers only see the watched entry and its direct children.
+			const rest = folded.slice(prefix.length);
+			if (!watcher.recursive && folded !== watcher.key && rest.includes('/')) continue;
+
+			try {
+				watcher.listener({ type, path: folded === watcher.key ? watcher.path : join(watcher.path, key.slice(prefix.length)) });
+			}
+			catch {}
+		}
+	}
+}
@@ -0,0 +1,62 @@
+/**
+ * Converts an engine-style path to the form used internally: forward slashes only,
+ * no empty or `.` segments, and no leading or trailing slash. `..` segments are collapsed.
+ */
+export function normalizePath(path: string): string {
+	const out: string[] = [];
+	for (const part of path.replaceAll('\\', '/').split('/')) {
+		if (!part.length || part === '.') continue;
+		if (part === '..') out.pop();
+		else out.push(part);
+	}
+	return out.join('/');
+}
+
+/** Normalizes and case-folds a path so that it can be compared the same way the engine does. */
+export function foldPath(path: string): string {
+	return normalizePath(path).toLowerCase();
+}
+
+/** Converts a pattern with `*` and `?` wildcards into a case-insensitive expression. Wildcards never match a slash. */
+export function wildcardRegExp(pattern: string): RegExp {
+	let source = '';
+	for (const char of pattern) {
+		if (char === '*') source += '[^/]*';
+		else if (char === '?') source += '[^/]';
+		else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+	}
+	return new RegExp('^' + source + '$', 'i');
+}
+
+export function hasWildcard(path: string): boolean {
+	return path.includes('*') || path.includes('?');
+}
+
+/**
+ * Converts a glob into a case-insensitive expression that is tested against normalized paths.
+ * `**` matches any number of folders, `*` and `?` stay within one. Globs without a slash match at any depth.
+ */
+export function globRegExp(pattern: string): RegExp {
+	let glob = normalizePath(pattern);
+	if (!glob.includes('/')) glob = '**/' + glob;
+
+	let source = '';
+	for (let i=0; i<glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i+1] === '*') {
+			// `**/` may also match nothing, so `a/**/b` matches `a/b`.
+			if (glob[i+2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			}
+			else {
+				source += '.*';
+				i += 1;
+			}
+		}
+		else if (char === '*') source += '[^/]*';
+		else if (char === '?') source += '[^/]';
+		else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+	}
+	return new RegExp('^' + source + '$', 'i');
+}
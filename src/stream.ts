@@ -0,0 +1,49 @@
+/** How many bytes streams read at a time. */
+export const STREAM_CHUNK_SIZE = 256 * 1024;
+
+/** Wraps bytes that are already in memory in a stream. */
+export function bytesStream(data: Uint8Array): ReadableStream<Uint8Array> {
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			if (data.length) controller.enqueue(data);
+			controller.close();
+		},
+	});
+}
+
+/**
+ * Streams `length` bytes starting at `offset` using a range reader, one chunk at a time.
+ * The stream errors if the reader comes up short, since the size is known up front.
+ */
+export function rangeStream(read: (offset: number, length: number) => Promise<Uint8Array|undefined>, offset: number, length: number, prefix?: Uint8Array): ReadableStream<Uint8Array> {
+	const end = offset + length;
+	let position = offset;
+	let pending_prefix = prefix?.length ? prefix : undefined;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			if (pending_prefix) {
+				controller.enqueue(pending_prefix);
+				pending_prefix = undefined;
+				if (position >= end) controller.close();
+				return;
+			}
+
+			if (position >= end) {
+				controller.close();
+				return;
+			}
+
+			const size = Math.min(STREAM_CHUNK_SIZE, end - position);
+			const chunk = await read(position, size);
+			if (!chunk || chunk.length < size) {
+				controller.error(Error(`Failed to read ${size} bytes at offset ${position}!`));
+				return;
+			}
+
+			position += size;
+			controller.enqueue(chunk);
+			if (position >= end) controller.close();
+		},
+	});
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { MemorySystem, VpkBuilder, VpkSystem, setLogTarget } from './index.js';
+import { VpkVersion } from './vpk.js';
+
+setLogTarget({ log() {}, warn() {}, error() {} });
+
+const encoder = new TextEncoder();
+
+function buildArchive(path: string, files: Record<string, string>, options: ConstructorParameters<typeof VpkBuilder>[0] = {}): MemorySystem {
+	const builder = new VpkBuilder(options);
+	for (const name in files) builder.addFile(name, encoder.encode(files[name]));
+	return new MemorySystem(builder.build(path));
+}
+
+const FILES = {
+	'materials/dev/dev_measuregeneric01.vmt': '"LightmappedGeneric" { "$basetexture" "dev/dev_measuregeneric01" }',
+	'scripts/game_sounds.txt': 'a'.repeat(300),
+	'readme.txt': 'hello',
+};
+
+describe('VpkBuilder', () => {
+	for (const version of [VpkVersion.V1, VpkVersion.V2] as const) {
+		test(`round trips a single-file v${version} archive`, async () => {
+			const vpk = new VpkSystem(buildArchive('/pak.vpk', FILES, { version }), '/pak.vpk');
+			expect(await vpk.validate()).toBe(true);
+			expect(vpk.version).toBe(version);
+			for (const path in FILES) expect(new TextDecoder().decode(await vpk.readFile(path))).toBe(FILES[path as keyof typeof FILES]);
+			expect((await vpk.readDirectory('materials/dev'))?.map(x => x[0])).toEqual(['dev_measuregeneric01.vmt']);
+		});
+	}
+
+	test('round trips a multi-chunk archive with preload bytes', async () => {
+		const fs = buildArchive('/pak01_dir.vpk', FILES, { chunkSize: 64, preloadSize: 16 });
+		expect(await fs.stat('/pak01_001.vpk')).toBeDefined();
+
+		const vpk = new VpkSystem(fs, '/pak01_dir.vpk');
+		expect(await vpk.validate()).toBe(true);
+		for (const path in FILES) expect(new TextDecoder().decode(await vpk.readFile(path))).toBe(FILES[path as keyof typeof FILES]);
+		expect((await vpk.stat('scripts/game_sounds.txt'))?.size).toBe(300);
+		expect((await vpk.verify())?.ok).toBe(true);
+	});
+
+	test('stores names ending in a dot without an extension', async () => {
+		const vpk = new VpkSystem(buildArchive('/pak.vpk', { 'a/foo.': 'foo', 'b/bar.txt': 'bar' }), '/pak.vpk');
+		expect(await vpk.validate()).toBe(true);
+		expect(Object.keys(vpk.files).sort()).toEqual(['/a/foo', '/b/bar.txt']);
+		expect(new TextDecoder().decode(await vpk.readFile('b/bar.txt'))).toBe('bar');
+	});
+
+	test('normalizes backslashes and dot segments', () => {
+		const builder = new VpkBuilder();
+		builder.addFile('materials\\Win\\c.vmt', encoder.encode(''));
+		builder.addFile('/materials/./dev/../d.vmt', encoder.encode(''));
+		expect(Object.keys(builder.entries)).toEqual(['materials/Win/c.vmt', 'materials/d.vmt']);
+		expect(() => builder.addFile('a/..', encoder.encode(''))).toThrow();
+	});
+});
+
+describe('VpkSystem.verify', () => {
+	test('reports a corrupted chunk', async () => {
+		const fs = buildArchive('/pak01_dir.vpk', FILES);
+		const chunk = (await fs.readFile('/pak01_000.vpk'))!.slice();
+		chunk[0] ^= 0xff;
+		await fs.writeFile('/pak01_000.vpk', chunk);
+
+		const report = (await new VpkSystem(fs, '/pak01_dir.vpk').verify())!;
+		expect(report.ok).toBe(false);
+		expect(report.files.filter(x => !x.ok).map(x => x.error)).toEqual(['crc']);
+		expect(report.chunks.some(x => x.error === 'md5')).toBe(true);
+	});
+
+	test('reports truncated checksum sections', async () => {
+		const fs = buildArchive('/pak01_dir.vpk', FILES);
+		const dir = (await fs.readFile('/pak01_dir.vpk'))!;
+		await fs.writeFile('/pak01_dir.vpk', dir.slice(0, -10));
+
+		const report = (await new VpkSystem(fs, '/pak01_dir.vpk').verify())!;
+		expect(report.ok).toBe(false);
+		expect(report.truncated).toBe(true);
+		expect(report.files.every(x => x.ok)).toBe(true);
+	});
+});
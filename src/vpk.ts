@@ -1,4 +1,10 @@
 import { FileType, type FileStat, type ReadableFileSystem, __console__ as console } from './index.js';
+import { bytesEqual, crc32, md5 } from './hash.js';
+import { ArchiveCache, IndexCache, decodeBytes, encodeBytes, stampFile, type IndexStamp } from './cache.js';
+import { ArchiveIndex, LazyLoader, type ArchiveDirectory } from './archive.js';
+import { bytesStream, rangeStream } from './stream.js';
+import { normalizePath } from './path.js';
+import { ArchiveError, addDiagnostic, toDiagnostic, type Diagnostic } from './errors.js';
 import Path from 'path/posix';
 
 const SIGNATURE = 0x55aa1234;
@@ -6,8 +12,15 @@ const VER_MIN = 1;
 const VER_MAX = 2;
 const LE = true;
 const INDEX_INLINE = 0x7fff;
-
-const SLASH = '/';
+const INDEX_MAX = 0x7ffe;
+const ENTRY_TERMINATOR = 0xffff;
+const PRELOAD_MAX = 0xffff;
+const HEADER_V1_SIZE = 12;
+const HEADER_V2_SIZE = 28;
+const OTHER_MD5_SIZE = 48;
+const ARCHIVE_MD5_ENTRY_SIZE = 28;
+const ARCHIVE_MD5_FRACTION = 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 200 * 1024 * 1024;
 
 export interface VpkFileInfo {
 	crc: number;
@@ -17,6 +30,53 @@ export interface VpkFileInfo {
 	length: number;
 }
 
+export interface VpkFileReport {
+	path: string;
+	archiveIndex: number;
+	ok: boolean;
+	/** Why the check failed. `missing` means the archive or the byte range could not be read. */
+	error?: 'missing' | 'crc';
+	expectedCrc: number;
+	actualCrc?: number;
+}
+
+export interface VpkChunkReport {
+	archiveIndex: number;
+	offset: number;
+	length: number;
+	ok: boolean;
+	/** Why the check failed. `range` means the archive is shorter than the range described by the section. */
+	error?: 'missing' | 'range' | 'md5';
+}
+
+export interface VpkVerifyReport {
+	/** True if every check that applies to this archive passed. */
+	ok: boolean;
+	version: VpkVersion;
+	files: VpkFileReport[];
+	/** Entries from the V2 archive MD5 section. Always empty for V1. */
+	chunks: VpkChunkReport[];
+	/** True if the directory file ends before the end of its V2 checksum sections, so those could not be checked. */
+	truncated?: boolean;
+	/** Results of the V2 "other" MD5 section. Undefined for V1 or when the section is absent. */
+	treeMD5?: boolean;
+	archiveMD5?: boolean;
+	wholeFileMD5?: boolean;
+	/** Contents of the V2 signature section, if present. */
+	publicKey?: Uint8Array;
+	signature?: Uint8Array;
+}
+
+/** A parsed directory tree as stored in an IndexCache. */
+interface VpkIndexData {
+	version: VpkVersion;
+	/** headerSize, treeSize, fileDataSize, archiveMD5Size, otherMD5Size and signatureSize. */
+	sizes: number[];
+	/** Each file's path, crc, archiveIndex, offset, length and base64 preload bytes. */
+	files: [string, number, number, number, number, string][];
+	dirs: string[];
+}
+
 export enum VpkVersion {
 	INVALID = -1,
 	NONE = 0,
@@ -24,9 +84,6 @@ export enum VpkVersion {
 	V2 = 2,
 }
 
-// TODO: Add some form of cache cleaning to prevent memory usage buildup!
-// TODO: Be more efficient with file reads & memory when accessing dir-inlined files!
-
 export class VpkSystem implements ReadableFileSystem {
 	public readonly kind = 'vpk';
 	public readonly fs: ReadableFileSystem;
@@ -35,20 +92,38 @@ export class VpkSystem implements ReadableFileSystem {
 	public readonly root: string; // ABC/
 	public version: VpkVersion = VpkVersion.NONE;
 
-	files:  Record<string, VpkFileInfo> = {};
-	dirs:   Record<string, true> = { '': true };
-	cache?: Record<number, Uint8Array>;
+	index = new ArchiveIndex<VpkFileInfo>(info => info.preloadBytes.length + info.length);
+	cache?: ArchiveCache;
+	/** Stores the parsed directory tree between runs, so that unchanged archives skip parsing. */
+	indexCache?: IndexCache;
 
+	headerSize: number = 0;
 	treeSize: number = 0;
+	fileDataSize: number = 0;
+	archiveMD5Size: number = 0;
+	otherMD5Size: number = 0;
+	signatureSize: number = 0;
 	single: boolean;
-
-	constructor(fs: ReadableFileSystem, path: string, enableCache: boolean=true) {
+	/** Problems found while parsing or reading. Cleared when the archive is parsed again. */
+	diagnostics: Diagnostic[] = [];
+	#loader = new LazyLoader({
+		parse: (signal) => this.parse(true, signal),
+		unparsed: () => this.version === VpkVersion.NONE,
+		ready: () => this.version !== VpkVersion.INVALID,
+		onError: (e) => addDiagnostic(this.diagnostics, toDiagnostic(e, 'archive-invalid', this.path)),
+	});
+
+	/**
+	 * @param cache Caches whole archive chunks when the filesystem does not support ranged reads.
+	 * Pass `true` for a private cache with the default budget, or an ArchiveCache to share a budget with other archives.
+	 */
+	constructor(fs: ReadableFileSystem, path: string, cache: boolean|ArchiveCache=true) {
 		// TODO: What do we do if it ends with .VPK (capitalized)?
 		if (!path.endsWith('.vpk')) path += '.vpk';
 
 		this.fs = fs;
 		this.single = !path.endsWith('_dir.vpk');
-		if (enableCache) this.cache = {};
+		if (cache) this.cache = cache === true ? new ArchiveCache() : cache;
 
 		// Setup paths
 		this.path = path;
@@ -56,31 +131,52 @@ export class VpkSystem implements ReadableFileSystem {
 		this.name = Path.basename(path).slice(0, this.single ? -4 : -8);
 	}
 
-	async parse(force: boolean=false): Promise<boolean> {
+	async parse(force: boolean=false, signal?: AbortSignal): Promise<boolean> {
 		if (!force && this.version === VpkVersion.INVALID) return false;
 
 		// In case an error is thrown, leave us on invalid.
 		this.version = VpkVersion.INVALID;
+		this.index.clear();
+
+		this.diagnostics = [];
+
+		let stamp: IndexStamp|undefined;
+		if (this.indexCache) {
+			const cached = await this.indexCache.get<VpkIndexData>('vpk:' + this.path, this.fs);
+			signal?.throwIfAborted();
+			if (cached) {
+				this.#restore(cached);
+				return true;
+			}
+			stamp = await stampFile(this.fs, this.path);
+			signal?.throwIfAborted();
+		}
 
 		// Read _dir.vpk
+		const archive_path = this.path;
 		const bytes = (await this.fs.readFile(this.path))!;
-		if (!bytes) return false;
-		const view = new DataView(bytes.buffer);
+		signal?.throwIfAborted();
+		if (!bytes) {
+			addDiagnostic(this.diagnostics, { severity: 'error', code: 'archive-missing', message: `Failed to read '${this.path}'`, path: this.path });
+			return false;
+		}
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
 
-		if (view.getUint32(0, LE) !== SIGNATURE) throw Error('Invalid vpk signature!');
+		if (view.getUint32(0, LE) !== SIGNATURE) throw new ArchiveError('Invalid vpk signature!', { path: archive_path });
 		
 		const version = view.getUint32(4, LE);
-		if (version < VER_MIN || version > VER_MAX) throw Error(`Invalid vpk version! (${version})`);
-		const SIZE_HEADER = version === 2 ? 28 : 12;
+		if (version < VER_MIN || version > VER_MAX) throw new ArchiveError(`Invalid vpk version! (${version})`, { path: archive_path });
+		const SIZE_HEADER = version === 2 ? HEADER_V2_SIZE : HEADER_V1_SIZE;
 		this.version = version;
+		this.headerSize = SIZE_HEADER;
 		this.treeSize = view.getUint32(8, LE);
 
-		// V2 checksum stuff. Not used at the moment.
+		// V2 checksum section sizes. These are only used by verify().
 		if (version === 2) {
-			const fileDataSize = view.getUint32(12, LE);
-			const archiveMD5Size = view.getUint32(16, LE);
-			const otherMD5Size = view.getUint32(20, LE);
-			const signatureSectionSize = view.getUint32(24, LE);
+			this.fileDataSize = view.getUint32(12, LE);
+			this.archiveMD5Size = view.getUint32(16, LE);
+			this.otherMD5Size = view.getUint32(20, LE);
+			this.signatureSize = view.getUint32(24, LE);
 		}
 
 		const TD = new TextDecoder();
@@ -93,7 +189,7 @@ export class VpkSystem implements ReadableFileSystem {
 			const start = i;
 			const end = bytes.indexOf(0x00, start);
 			if (end === -1) {
-				throw new Error('Failed to terminate string!');
+				throw new ArchiveError('Failed to terminate string!', { path: archive_path });
 			}
 			i = end+1;
 			return TD.decode(bytes.slice(start, end));
@@ -131,42 +227,72 @@ export class VpkSystem implements ReadableFileSystem {
 				if (path === ' ') path = '';
 				if (path.length && !path.startsWith('/')) path = '/' + path;
 
-				// Add all subdirectories.
-				// TODO: Is this performant at all?
-				this.dirs[path] = true;
-				this.dirs[path+'/'] = true;
-				let i=0;
-				while ((i = path.indexOf('/', i+1)) !== -1) {
-					this.dirs[path.slice(0, i)] = true;
-				}
+				// Directories are added up front, since the tree may list one without files.
+				this.index.addDirectory(path);
 
 				while (true) {
 					const filename = readString();
 					if (!filename.length) break;
-					const fullpath = (path+'/'+filename+'.'+extension).trim();
-					this.files[fullpath] = readFileInfo();
+					const fullpath = extension === ' ' ? path+'/'+filename : (path+'/'+filename+'.'+extension).trim();
+					this.index.addFile(fullpath, readFileInfo());
 				}
 			}
 		}
 
+		if (stamp) this.indexCache!.set('vpk:' + this.path, [stamp], this.#serialize());
 		return true;
 	}
 
-	async validate() {
-		try {
-			if (this.version === VpkVersion.NONE) await this.parse();
-		}
-		catch(e) {
-			console.error(e);
+	#serialize(): VpkIndexData {
+		// Only directories without subdirectories need storing, since adding one also adds its parents.
+		const dirs: string[] = [];
+		const visit = (dir: ArchiveDirectory) => {
+			if (!dir.dirs.size) dirs.push(dir.path);
+			for (const child of dir.dirs.values()) visit(child);
+		};
+		visit(this.index.root);
+
+		return {
+			version: this.version,
+			sizes: [this.headerSize, this.treeSize, this.fileDataSize, this.archiveMD5Size, this.otherMD5Size, this.signatureSize],
+			files: Object.entries(this.files).map(([path, info]) => [path, info.crc, info.archiveIndex, info.offset, info.length, encodeBytes(info.preloadBytes)]),
+			dirs,
+		};
+	}
+
+	#restore(data: VpkIndexData) {
+		this.version = data.version;
+		[this.headerSize, this.treeSize, this.fileDataSize, this.archiveMD5Size, this.otherMD5Size, this.signatureSize] = data.sizes;
+
+		for (const [path, crc, archiveIndex, offset, length, preload] of data.files) {
+			this.index.addFile(path, { crc, preloadBytes: decodeBytes(preload), archiveIndex, offset, length });
 		}
-		if (this.version === VpkVersion.INVALID) return false;
-		return true;
+		for (const path of data.dirs) this.index.addDirectory(path);
+	}
+
+	async validate() {
+		return this.#loader.validate();
+	}
+
+	reload(): Promise<boolean> {
+		return this.#loader.reload();
 	}
 
 	getPath(path: string): string {
 		return Path.join(this.path, path);
 	}
 
+	/** The files in the archive, keyed by their path with a leading slash. Same as `index.files`. */
+	get files(): Record<string, VpkFileInfo> {
+		return this.index.files;
+	}
+
+	/** Returns the path as stored in the archive, or undefined if it does not exist. */
+	async resolvePath(path: string): Promise<string|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.resolveFile(path) ?? this.index.resolveDir(path);
+	}
+
 	#getArchivePath(index: number): string {
 		if (index === INDEX_INLINE) return this.path;
 		const idx_string = (index + '').padStart(3, '0');
@@ -174,12 +300,11 @@ export class VpkSystem implements ReadableFileSystem {
 	}
 
 	cleanCache() {
-		if (this.cache)
-			this.cache = {};
+		this.cache?.clear(this);
 	}
 
 	async #getArchiveData(index: number): Promise<Uint8Array|undefined> {
-		const cached_data = this.cache?.[index];
+		const cached_data = this.cache?.get(this, index);
 		if (cached_data) return cached_data;
 
 		const archive_path = this.#getArchivePath(index);
@@ -188,14 +313,134 @@ export class VpkSystem implements ReadableFileSystem {
 		if (!archive_data) return undefined;
 		if (!(archive_data instanceof Uint8Array)) throw Error(`Expected Uint8Array return from readFile!`);
 
-		if (this.cache) this.cache[index] = archive_data;
+		this.cache?.set(this, index, archive_data);
 		return archive_data;
 	}
 
+	/** Reads a byte range from an archive, using ranged reads when the underlying filesystem supports them. */
+	async #readArchiveRange(index: number, offset: number, length: number): Promise<Uint8Array|undefined> {
+		if (this.fs.readFileRange) {
+			return this.fs.readFileRange(this.#getArchivePath(index), offset, length);
+		}
+
+		const archive_data = await this.#getArchiveData(index);
+		if (!archive_data) return undefined;
+
+		// Make a sub-array without cloning the buffer to avoid an unnecessary copy
+		return archive_data.subarray(offset, offset + length);
+	}
+
+	/** Checks every entry's CRC and, for V2 archives, the checksum sections. Returns undefined if the archive could not be parsed. */
+	async verify(): Promise<VpkVerifyReport|undefined> {
+		if (!await this.validate()) return undefined;
+
+		const report: VpkVerifyReport = {
+			ok: true,
+			version: this.version,
+			files: [],
+			chunks: [],
+		};
+
+		// Per-file CRCs
+		for (const path in this.files) {
+			const info = this.files[path];
+			const file_report: VpkFileReport = {
+				path,
+				archiveIndex: info.archiveIndex,
+				ok: false,
+				expectedCrc: info.crc,
+			};
+			report.files.push(file_report);
+
+			const data = await this.readFile(path);
+			if (!data || data.length !== info.preloadBytes.length + info.length) {
+				file_report.error = 'missing';
+				report.ok = false;
+				continue;
+			}
+
+			file_report.actualCrc = crc32(data);
+			file_report.ok = file_report.actualCrc === info.crc;
+			if (!file_report.ok) {
+				file_report.error = 'crc';
+				report.ok = false;
+			}
+		}
+
+		if (this.version !== VpkVersion.V2) return report;
+
+		const bytes = await this.fs.readFile(this.path);
+		if (!bytes) {
+			report.ok = false;
+			return report;
+		}
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+		const archive_md5_start = this.headerSize + this.treeSize + this.fileDataSize;
+		const other_md5_start = archive_md5_start + this.archiveMD5Size;
+		const signature_start = other_md5_start + this.otherMD5Size;
+		if (signature_start + this.signatureSize > bytes.length) {
+			// A half-written or cut off directory file. The per-file results above still stand.
+			report.ok = false;
+			report.truncated = true;
+			if (this.otherMD5Size >= OTHER_MD5_SIZE) report.treeMD5 = report.archiveMD5 = report.wholeFileMD5 = false;
+			return report;
+		}
+
+		// Archive MD5 section
+		for (let i=archive_md5_start; i+ARCHIVE_MD5_ENTRY_SIZE<=other_md5_start; i+=ARCHIVE_MD5_ENTRY_SIZE) {
+			const chunk: VpkChunkReport = {
+				archiveIndex: view.getUint32(i, LE),
+				offset: view.getUint32(i+4, LE),
+				length: view.getUint32(i+8, LE),
+				ok: false,
+			};
+			report.chunks.push(chunk);
+
+			const expected = bytes.subarray(i+12, i+28);
+			const chunk_data = await this.#readArchiveRange(chunk.archiveIndex, chunk.offset, chunk.length);
+			if (!chunk_data) chunk.error = 'missing';
+			else if (chunk_data.length < chunk.length) chunk.error = 'range';
+			else if (!bytesEqual(md5(chunk_data), expected)) chunk.error = 'md5';
+			else chunk.ok = true;
+
+			if (!chunk.ok) report.ok = false;
+		}
+
+		// Other MD5 section
+		if (this.otherMD5Size >= OTHER_MD5_SIZE) {
+			const tree = bytes.subarray(this.headerSize, this.headerSize + this.treeSize);
+			const archive_md5 = bytes.subarray(archive_md5_start, other_md5_start);
+			const whole = bytes.subarray(0, other_md5_start + 32);
+
+			report.treeMD5 = bytesEqual(md5(tree), bytes.subarray(other_md5_start, other_md5_start + 16));
+			report.archiveMD5 = bytesEqual(md5(archive_md5), bytes.subarray(other_md5_start + 16, other_md5_start + 32));
+			report.wholeFileMD5 = bytesEqual(md5(whole), bytes.subarray(other_md5_start + 32, other_md5_start + 48));
+			if (!report.treeMD5 || !report.archiveMD5 || !report.wholeFileMD5) report.ok = false;
+		}
+
+		// Signature section
+		if (this.signatureSize >= 8) {
+			let i = signature_start;
+			const key_size = view.getUint32(i, LE);
+			report.publicKey = bytes.slice(i + 4, i + 4 + key_size);
+			i += 4 + key_size;
+			const signature_size = view.getUint32(i, LE);
+			report.signature = bytes.slice(i + 4, i + 4 + signature_size);
+		}
+
+		return report;
+	}
+
 	async getFileInfo(path: string): Promise<VpkFileInfo|undefined> {
 		if (!await this.validate()) return undefined;
-		if (path in this.files) return this.files[path];
-		return undefined;
+		return this.index.getFile(path);
+	}
+
+	/** Returns a directory along with its file count and the total size of everything below it. */
+	async getDirectoryInfo(path: string): Promise<ArchiveDirectory|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.getDirectory(path);
 	}
 
 	async readFile(path: string): Promise<Uint8Array|undefined> {
@@ -211,15 +456,21 @@ export class VpkSystem implements ReadableFileSystem {
 
 		let offset = info.offset;
 		if (info.archiveIndex === INDEX_INLINE) {
-			offset += this.treeSize;
+			offset += this.headerSize + this.treeSize;
 		}
 
-		const archive_data = await this.#getArchiveData(info.archiveIndex);
-		if (!archive_data) return undefined;
+		const archive_window = await this.#readArchiveRange(info.archiveIndex, offset, info.length);
+		if (!archive_window || archive_window.length < info.length) {
+			const chunk_path = this.#getArchivePath(info.archiveIndex);
+			addDiagnostic(this.diagnostics, {
+				severity: 'error',
+				code: 'archive-read-failed',
+				message: `Failed to read '${path}' from '${chunk_path}'. The chunk may be missing or truncated.`,
+				path: chunk_path,
+			});
+			return undefined;
+		}
 
-		// Make a sub-array without cloning the buffer to avoid an unnecessary copy
-		const archive_window = new Uint8Array(archive_data.buffer, offset, info.length);
-		
 		// Combine preloadBytes and body data in new buffer
 		const out_data = new Uint8Array(info.length + info.preloadBytes.length);
 		out_data.set(info.preloadBytes, 0);
@@ -228,30 +479,26 @@ export class VpkSystem implements ReadableFileSystem {
 		return out_data;
 	}
 
-	async readDirectory(path: string): Promise<[string, FileType][]|undefined> {
+	/** Streams a file's preload bytes followed by its archive data, without reading the whole file at once. */
+	async readFileStream(path: string): Promise<ReadableStream<Uint8Array>|undefined> {
 		if (!await this.validate()) return undefined;
 
-		const out: [string, FileType][] = [];
-		const included: Record<string, true> = {};
-
-		for (const file in this.files) {
-			if (!file.startsWith(path)) continue;
-			const slash_pos = file.indexOf(SLASH, path.length+1);
-			const is_dir = slash_pos !== -1;
+		const info = await this.getFileInfo(path);
+		if (!info) return undefined;
+		if (!info.length) return bytesStream(info.preloadBytes.slice());
 
-			if (is_dir) {
-				const dirname = file.slice(0, slash_pos);
-				if (dirname === path) continue;
-				if (dirname in included) continue;
-				included[dirname] = true;
-				out.push([Path.basename(dirname), FileType.Directory]);
-			}
-			else {
-				out.push([Path.basename(file), FileType.File]);
-			}
+		let offset = info.offset;
+		if (info.archiveIndex === INDEX_INLINE) {
+			offset += this.headerSize + this.treeSize;
 		}
 
-		return out;
+		const read = (start: number, length: number) => this.#readArchiveRange(info.archiveIndex, start, length);
+		return rangeStream(read, offset, info.length, info.preloadBytes.slice());
+	}
+
+	async readDirectory(path: string): Promise<[string, FileType][]|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.list(path);
 	}
 
 	async stat(path: string): Promise<FileStat | undefined> {
@@ -259,11 +506,11 @@ export class VpkSystem implements ReadableFileSystem {
 		if (file !== undefined) return { 
 			ctime: 0,
 			mtime: 0,
-			size: file ? file.length : 0,
+			size: file ? file.preloadBytes.length + file.length : 0,
 			type: file ? FileType.File : FileType.Directory,
 		};
 
-		if (path in this.dirs) return {
+		if (this.index.resolveDir(path) !== undefined) return {
 			ctime: 0,
 			mtime: 0,
 			size: 0,
@@ -273,3 +520,269 @@ export class VpkSystem implements ReadableFileSystem {
 		return undefined;
 	}
 }
+
+
+export interface VpkBuildOptions {
+	/** The format version to write. Defaults to V2. */
+	version?: VpkVersion.V1 | VpkVersion.V2;
+	/** The maximum size of each numbered archive in bytes. Only used when building a multi-chunk (_dir.vpk) archive. */
+	chunkSize?: number;
+	/** The number of bytes from the start of each file to store in the directory tree. Defaults to 0. */
+	preloadSize?: number;
+}
+
+interface VpkBuildEntry {
+	data: Uint8Array;
+	preloadSize: number;
+}
+
+/** A growable byte buffer for serializing the directory tree. */
+class ByteWriter {
+	bytes = new Uint8Array(1024);
+	view = new DataView(this.bytes.buffer);
+	length = 0;
+
+	#reserve(size: number) {
+		if (this.length + size <= this.bytes.length) return;
+		let capacity = this.bytes.length * 2;
+		while (capacity < this.length + size) capacity *= 2;
+		const next = new Uint8Array(capacity);
+		next.set(this.bytes.subarray(0, this.length));
+		this.bytes = next;
+		this.view = new DataView(next.buffer);
+	}
+
+	string(value: string) {
+		const encoded = new TextEncoder().encode(value);
+		this.data(encoded);
+		this.uint8(0);
+	}
+
+	data(value: Uint8Array) {
+		this.#reserve(value.length);
+		this.bytes.set(value, this.length);
+		this.length += value.length;
+	}
+
+	uint8(value: number) {
+		this.#reserve(1);
+		this.view.setUint8(this.length, value);
+		this.length += 1;
+	}
+
+	uint16(value: number) {
+		this.#reserve(2);
+		this.view.setUint16(this.length, value, LE);
+		this.length += 2;
+	}
+
+	uint32(value: number) {
+		this.#reserve(4);
+		this.view.setUint32(this.length, value, LE);
+		this.length += 4;
+	}
+
+	result(): Uint8Array {
+		return this.bytes.slice(0, this.length);
+	}
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+	let size = 0;
+	for (const part of parts) size += part.length;
+	const out = new Uint8Array(size);
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+/** Builds VPK archives that can be read back by VpkSystem. */
+export class VpkBuilder {
+	public readonly version: VpkVersion.V1 | VpkVersion.V2;
+	public readonly chunkSize: number;
+	public readonly preloadSize: number;
+
+	entries: Record<string, VpkBuildEntry> = {};
+
+	constructor(options: VpkBuildOptions = {}) {
+		this.version = options.version ?? VpkVersion.V2;
+		this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+		this.preloadSize = options.preloadSize ?? 0;
+
+		if (this.version !== VpkVersion.V1 && this.version !== VpkVersion.V2) throw Error(`Invalid vpk version! (${this.version})`);
+		if (this.chunkSize <= 0) throw Error(`Invalid vpk chunk size! (${this.chunkSize})`);
+		if (this.preloadSize < 0 || this.preloadSize > PRELOAD_MAX) throw Error(`Invalid vpk preload size! (${this.preloadSize})`);
+	}
+
+	/** Adds a file to the archive. Paths are relative to the archive root. */
+	addFile(path: string, data: Uint8Array, preloadSize: number=this.preloadSize) {
+		path = normalizePath(path);
+		if (!path.length) throw Error('Attempted to add a file without a name!');
+		if (preloadSize < 0 || preloadSize > PRELOAD_MAX) throw Error(`Invalid vpk preload size! (${preloadSize})`);
+		this.entries[path] = { data, preloadSize: Math.min(preloadSize, data.length) };
+	}
+
+	/** Recursively adds every file under `root` in the provided filesystem. Returns the number of files added. */
+	async addFileSystem(fs: ReadableFileSystem, root: string='', prefix: string=''): Promise<number> {
+		const items = await fs.readDirectory(root);
+		if (!items) return 0;
+
+		let count = 0;
+		for (const [name, type] of items) {
+			const source = Path.join(root, name);
+			const target = Path.join(prefix, name);
+
+			if (type === FileType.Directory) {
+				count += await this.addFileSystem(fs, source, target);
+				continue;
+			}
+
+			const data = await fs.readFile(source);
+			if (!data) {
+				console.warn('Failed to read', "'"+source+"'", 'while building vpk!');
+				continue;
+			}
+
+			this.addFile(target, data);
+			count++;
+		}
+
+		return count;
+	}
+
+	/**
+	 * Serializes the archive. Paths ending in _dir.vpk produce a directory file with numbered chunks,
+	 * while any other path produces a single self-contained file. Returns the output bytes keyed by path.
+	 */
+	build(path: string): Record<string, Uint8Array> {
+		if (!path.endsWith('.vpk')) path += '.vpk';
+		const single = !path.endsWith('_dir.vpk');
+		const root = Path.dirname(path);
+		const name = Path.basename(path).slice(0, single ? -4 : -8);
+
+		// Group entries by extension, then by directory, like the tree format expects.
+		const tree: Record<string, Record<string, [string, VpkBuildEntry][]>> = {};
+		for (const file of Object.keys(this.entries).sort()) {
+			const entry = this.entries[file];
+			const basename = Path.basename(file);
+			const dot = basename.lastIndexOf('.');
+			// An empty string would end the tree early, so names ending in a dot are stored without an extension.
+			const extension = dot > 0 ? basename.slice(dot + 1) || ' ' : ' ';
+			const filename = dot > 0 ? basename.slice(0, dot) : basename;
+			const dirname = Path.dirname(file);
+			const dir = dirname === '.' ? ' ' : dirname;
+
+			tree[extension] ??= {};
+			tree[extension][dir] ??= [];
+			tree[extension][dir].push([filename, entry]);
+		}
+
+		// Lay out file bodies, then write the tree.
+		const inline: Uint8Array[] = [];
+		const chunks: Uint8Array[][] = [];
+		let inline_size = 0;
+		let chunk_size = 0;
+
+		const writer = new ByteWriter();
+		for (const extension in tree) {
+			writer.string(extension);
+
+			for (const dir in tree[extension]) {
+				writer.string(dir);
+
+				for (const [filename, entry] of tree[extension][dir]) {
+					const preload = entry.data.subarray(0, entry.preloadSize);
+					const body = entry.data.subarray(entry.preloadSize);
+
+					let index = INDEX_INLINE;
+					let offset = 0;
+
+					if (body.length && single) {
+						offset = inline_size;
+						inline.push(body);
+						inline_size += body.length;
+					}
+					else if (body.length) {
+						if (!chunks.length || (chunk_size && chunk_size + body.length > this.chunkSize)) {
+							chunks.push([]);
+							chunk_size = 0;
+						}
+						if (chunks.length - 1 > INDEX_MAX) throw Error('Exceeded the maximum number of vpk chunks!');
+
+						index = chunks.length - 1;
+						offset = chunk_size;
+						chunks[index].push(body);
+						chunk_size += body.length;
+					}
+
+					writer.string(filename);
+					writer.uint32(crc32(entry.data));
+					writer.uint16(preload.length);
+					writer.uint16(index);
+					writer.uint32(offset);
+					writer.uint32(body.length);
+					writer.uint16(ENTRY_TERMINATOR);
+					writer.data(preload);
+				}
+
+				writer.uint8(0);
+			}
+
+			writer.uint8(0);
+		}
+		writer.uint8(0);
+
+		const tree_bytes = writer.result();
+		const file_data = concatBytes(inline);
+		const chunk_data = chunks.map(concatBytes);
+
+		const out: Record<string, Uint8Array> = {};
+		chunk_data.forEach((data, index) => {
+			const idx_string = (index + '').padStart(3, '0');
+			out[Path.join(root, `${name}_${idx_string}.vpk`)] = data;
+		});
+
+		const header_size = this.version === VpkVersion.V2 ? HEADER_V2_SIZE : HEADER_V1_SIZE;
+		const header = new Uint8Array(header_size);
+		const header_view = new DataView(header.buffer);
+		header_view.setUint32(0, SIGNATURE, LE);
+		header_view.setUint32(4, this.version, LE);
+		header_view.setUint32(8, tree_bytes.length, LE);
+
+		if (this.version === VpkVersion.V1) {
+			out[path] = concatBytes([header, tree_bytes, file_data]);
+			return out;
+		}
+
+		// V2 checksum sections. Each chunk is hashed in fixed-size fractions like Valve's tools do.
+		const archive_md5 = new ByteWriter();
+		chunk_data.forEach((data, index) => {
+			for (let start=0; start<data.length; start+=ARCHIVE_MD5_FRACTION) {
+				const count = Math.min(ARCHIVE_MD5_FRACTION, data.length - start);
+				archive_md5.uint32(index);
+				archive_md5.uint32(start);
+				archive_md5.uint32(count);
+				archive_md5.data(md5(data.subarray(start, start + count)));
+			}
+		});
+		const archive_md5_bytes = archive_md5.result();
+
+		header_view.setUint32(12, file_data.length, LE);
+		header_view.setUint32(16, archive_md5_bytes.length, LE);
+		header_view.setUint32(20, OTHER_MD5_SIZE, LE);
+		header_view.setUint32(24, 0, LE);
+
+		const other_md5 = new Uint8Array(OTHER_MD5_SIZE);
+		other_md5.set(md5(tree_bytes), 0);
+		other_md5.set(md5(archive_md5_bytes), 16);
+
+		const whole = concatBytes([header, tree_bytes, file_data, archive_md5_bytes, other_md5.subarray(0, 32)]);
+		other_md5.set(md5(whole), 32);
+
+		out[path] = concatBytes([whole, other_md5.subarray(32)]);
+		return out;
+	}
+}
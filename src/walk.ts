@@ -0,0 +1,63 @@
+import { FileType, type ReadableFileSystem } from './index.js';
+import { hasWildcard, wildcardRegExp } from './path.js';
+import { join } from 'path/posix';
+
+/** Recursively lists every file below `root`, yielding paths relative to it. */
+export async function* walkFiles(fs: ReadableFileSystem, root: string=''): AsyncGenerator<string> {
+	const stack: string[] = [''];
+	while (stack.length) {
+		const dir = stack.pop()!;
+		const items = await fs.readDirectory(join(root, dir));
+		if (!items) continue;
+
+		for (const [name, type] of items) {
+			const path = dir.length ? dir + '/' + name : name;
+			if (type === FileType.Directory) stack.push(path);
+			else yield path;
+		}
+	}
+}
+
+/**
+ * Expands `*` and `?` wildcards in an absolute path using only readDirectory(), so it works on any backend.
+ * Matching is case-insensitive and results are sorted alphabetically. Paths without wildcards are returned as-is.
+ * Wildcards before the last segment only match directories. `accept` filters what the last segment matches.
+ */
+export async function expandGlob(fs: ReadableFileSystem, pattern: string, accept?: (name: string, type: FileType) => boolean): Promise<string[]> {
+	if (!hasWildcard(pattern)) return [pattern];
+
+	const absolute = pattern.startsWith('/');
+	const parts = pattern.split('/').filter(x => x.length);
+	let current: string[] = [absolute ? '/' : ''];
+
+	for (let i=0; i<parts.length; i++) {
+		const part = parts[i];
+		const last = i === parts.length - 1;
+		if (!hasWildcard(part)) {
+			current = current.map(x => join(x, part));
+			continue;
+		}
+
+		const regex = wildcardRegExp(part);
+		const next: string[] = [];
+		for (const dir of current) {
+			let items: [string, FileType][] | undefined;
+			try {
+				items = await fs.readDirectory(dir);
+			}
+			catch {}
+			if (!items) continue;
+
+			for (const [name, type] of items) {
+				if (!regex.test(name)) continue;
+				if (last ? accept && !accept(name, type) : !(type & FileType.Directory)) continue;
+				next.push(join(dir, name));
+			}
+		}
+
+		current = next;
+		if (!current.length) break;
+	}
+
+	return current.sort((a, b) => a.toLowerCase() < b.toLowerCase() ? -1 : 1);
+}
@@ -0,0 +1,240 @@
+import { FileType, InitState, type FileStat, type ReadableFileSystem, __console__ as console } from './index.js';
+import { ArchiveIndex, LazyLoader } from './archive.js';
+import { ArchiveError } from './errors.js';
+import Path from 'path/posix';
+
+const SIG_EOCD = 0x06054b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_LOCAL = 0x04034b50;
+const SIZE_EOCD = 22;
+const SIZE_CENTRAL = 46;
+const SIZE_LOCAL = 30;
+const MAX_COMMENT = 0xffff;
+const LE = true;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const SLASH = '/';
+
+export interface ZipEntry {
+	method: number;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	/** Offset of the local file header, relative to the start of the archive. */
+	localOffset: number;
+	mtime: number;
+}
+
+/** Converts a DOS date & time pair to a unix timestamp in milliseconds. */
+function dosTime(date: number, time: number): number {
+	const year = ((date >> 9) & 0x7f) + 1980;
+	const month = ((date >> 5) & 0x0f) - 1;
+	const day = date & 0x1f;
+	const hours = (time >> 11) & 0x1f;
+	const minutes = (time >> 5) & 0x3f;
+	const seconds = (time & 0x1f) * 2;
+	return new Date(year, month, day, hours, minutes, seconds).getTime();
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Reads ZIP archives. Supports stored and deflated entries. */
+export class ZipSystem implements ReadableFileSystem {
+	public readonly kind: 'zip'|'bsp' = 'zip';
+	public readonly fs: ReadableFileSystem;
+	public readonly path: string;
+	public initialized: InitState = InitState.None;
+
+	index = new ArchiveIndex<ZipEntry>(entry => entry.size);
+
+	/** The byte range of the archive within the file. Subclasses may narrow this in locate(). */
+	protected base: number = 0;
+	protected size: number = 0;
+	#data?: Uint8Array;
+	#loader = new LazyLoader({
+		parse: (signal) => this.parse(signal),
+		unparsed: () => this.initialized === InitState.None,
+		ready: () => this.initialized === InitState.Ready,
+	});
+
+	constructor(fs: ReadableFileSystem, path: string) {
+		this.fs = fs;
+		this.path = path;
+	}
+
+	/** Determines where the archive lives within the file. Returns false if there is no archive. */
+	protected async locate(): Promise<boolean> {
+		const stat = await this.fs.stat(this.path);
+		if (!stat) return false;
+		this.base = 0;
+		this.size = stat.size;
+		return true;
+	}
+
+	/** Reads a byte range relative to the start of the archive. */
+	protected async read(offset: number, length: number): Promise<Uint8Array|undefined> {
+		if (this.fs.readFileRange) return this.fs.readFileRange(this.path, this.base + offset, length);
+
+		this.#data ??= await this.fs.readFile(this.path);
+		if (!this.#data) return undefined;
+		return this.#data.subarray(this.base + offset, this.base + offset + length);
+	}
+
+	async parse(signal?: AbortSignal): Promise<boolean> {
+		this.initialized = InitState.Error;
+		this.index.clear();
+		this.#data = undefined;
+
+		if (!await this.locate()) return false;
+		signal?.throwIfAborted();
+
+		// An empty region (such as a map without packed content) simply has no entries.
+		if (this.size === 0) {
+			this.initialized = InitState.Ready;
+			return true;
+		}
+
+		// Find the end of central directory record by scanning backwards past the comment.
+		const tail_length = Math.min(this.size, SIZE_EOCD + MAX_COMMENT);
+		const tail = await this.read(this.size - tail_length, tail_length);
+		signal?.throwIfAborted();
+		if (!tail || tail.length < SIZE_EOCD) return false;
+		const tail_view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+		let eocd = -1;
+		for (let i=tail.length-SIZE_EOCD; i>=0; i--) {
+			if (tail_view.getUint32(i, LE) === SIG_EOCD) {
+				eocd = i;
+				break;
+			}
+		}
+		if (eocd === -1) throw new ArchiveError('Failed to locate zip central directory!', { path: this.path });
+
+		const entry_count = tail_view.getUint16(eocd + 10, LE);
+		const cd_size = tail_view.getUint32(eocd + 12, LE);
+		const cd_offset = tail_view.getUint32(eocd + 16, LE);
+
+		const cd = await this.read(cd_offset, cd_size);
+		signal?.throwIfAborted();
+		if (!cd || cd.length < cd_size) throw new ArchiveError('Zip central directory exceeds the archive size!', { path: this.path });
+		const view = new DataView(cd.buffer, cd.byteOffset, cd.byteLength);
+		const TD = new TextDecoder();
+
+		let i = 0;
+		for (let n=0; n<entry_count; n++) {
+			if (view.getUint32(i, LE) !== SIG_CENTRAL) throw new ArchiveError('Invalid zip central directory entry!', { path: this.path });
+
+			const method     = view.getUint16(i+10, LE);
+			const time       = view.getUint16(i+12, LE);
+			const date       = view.getUint16(i+14, LE);
+			const crc        = view.getUint32(i+16, LE);
+			const compressed = view.getUint32(i+20, LE);
+			const size       = view.getUint32(i+24, LE);
+			const name_len   = view.getUint16(i+28, LE);
+			const extra_len  = view.getUint16(i+30, LE);
+			const cmt_len    = view.getUint16(i+32, LE);
+			const local      = view.getUint32(i+42, LE);
+
+			const name = TD.decode(cd.subarray(i + SIZE_CENTRAL, i + SIZE_CENTRAL + name_len));
+			i += SIZE_CENTRAL + name_len + extra_len + cmt_len;
+
+			// Explicit directory entries end with a slash.
+			if (name.endsWith(SLASH) || name.endsWith('\\')) {
+				this.index.addDirectory(name);
+				continue;
+			}
+
+			this.index.addFile(name, {
+				method,
+				crc,
+				compressedSize: compressed,
+				size,
+				localOffset: local,
+				mtime: dosTime(date, time),
+			});
+		}
+
+		this.initialized = InitState.Ready;
+		return true;
+	}
+
+	async validate() {
+		return this.#loader.validate();
+	}
+
+	reload(): Promise<boolean> {
+		return this.#loader.reload();
+	}
+
+	getPath(path: string): string {
+		return Path.join(this.path, path);
+	}
+
+	/** Returns the path as stored in the archive, or undefined if it does not exist. */
+	async resolvePath(path: string): Promise<string|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.resolveFile(path) ?? this.index.resolveDir(path);
+	}
+
+	async getFileInfo(path: string): Promise<ZipEntry|undefined> {
+		if (!await this.validate()) return undefined;
+		return this.index.getFile(path);
+	}
+
+	async readFile(path: string): Promise<Uint8Array|undefined> {
+		const info = await this.getFileInfo(path);
+		if (!info) return undefined;
+
+		const header = await this.read(info.localOffset, SIZE_LOCAL);
+		if (!header || header.length < SIZE_LOCAL) return undefined;
+		const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+		if (view.getUint32(0, LE) !== SIG_LOCAL) {
+			console.error('Invalid zip local header for', "'"+path+"'");
+			return undefined;
+		}
+
+		const data_offset = info.localOffset + SIZE_LOCAL + view.getUint16(26, LE) + view.getUint16(28, LE);
+		const data = await this.read(data_offset, info.compressedSize);
+		if (!data || data.length < info.compressedSize) return undefined;
+
+		switch (info.method) {
+			case METHOD_STORED:
+				return data.slice();
+			case METHOD_DEFLATE:
+				return inflateRaw(data);
+			default:
+				console.warn(`Unsupported zip compression method ${info.method} for '${path}'`);
+				return undefined;
+		}
+	}
+
+	async readDirectory(path: string): Promise<[string, FileType][]|undefined> {
+		if (!await this.validate()) return undefined;
+
+		return this.index.list(path);
+	}
+
+	async stat(path: string): Promise<FileStat | undefined> {
+		const file = await this.getFileInfo(path);
+		if (file) return {
+			ctime: file.mtime,
+			mtime: file.mtime,
+			size: file.size,
+			type: FileType.File,
+		};
+
+		if (this.index.resolveDir(path) !== undefined) return {
+			ctime: 0,
+			mtime: 0,
+			size: 0,
+			type: FileType.Directory,
+		};
+
+		return undefined;
+	}
+}